@@ -1,8 +1,15 @@
+import { useState } from 'react';
 import { Game } from './components/Game';
+import { LevelEditor } from './components/LevelEditor';
 import './App.css';
 
 function App() {
-  return <Game />;
+  const [showEditor, setShowEditor] = useState(false);
+
+  if (showEditor) {
+    return <LevelEditor onClose={() => setShowEditor(false)} />;
+  }
+  return <Game onOpenEditor={() => setShowEditor(true)} />;
 }
 
 export default App;
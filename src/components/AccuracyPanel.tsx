@@ -0,0 +1,61 @@
+import type { ErrorReport } from '../types';
+import { getErrorUnit } from '../utils';
+import './AccuracyPanel.css';
+
+interface AccuracyPanelProps {
+  report: ErrorReport;
+  className?: string;
+}
+
+// 顯示到小數一位，極小值視為 0（避免 -0.0 或浮點殘差）
+function formatError(value: number): string {
+  return value < 0.05 ? '0' : value.toFixed(1);
+}
+
+// 重疊率以百分比顯示（無條件捨去，避免 99.96% 顯示成 100%）
+function formatIoU(value: number): string {
+  return `${Math.floor(value * 1000) / 10}%`;
+}
+
+// 準確度面板 - 各碎片 X/Y/旋轉/縮放的加權誤差（像素），誤差最大的碎片以紅色標示
+// iou 計分時多一欄重疊率，合計改為不重疊比例
+export function AccuracyPanel({ report, className = '' }: AccuracyPanelProps) {
+  const isIoU = report.scoring === 'iou';
+
+  return (
+    <div className={`accuracy-panel ${className}`}>
+      <table className="accuracy-table">
+        <thead>
+          <tr>
+            <th>碎片</th>
+            <th>X</th>
+            <th>Y</th>
+            <th>旋轉</th>
+            <th>縮放</th>
+            {isIoU && <th>重疊</th>}
+            <th>合計</th>
+          </tr>
+        </thead>
+        <tbody>
+          {report.pieces.map((piece) => (
+            <tr key={piece.pieceId} className={piece.pieceId === report.worstPieceId ? 'worst' : ''}>
+              <td>{piece.pieceId}</td>
+              <td>{formatError(piece.dx)}</td>
+              <td>{formatError(piece.dy)}</td>
+              <td>{formatError(piece.rotation)}</td>
+              <td>{formatError(piece.scale)}</td>
+              {isIoU && <td>{formatIoU(piece.iou ?? 0)}</td>}
+              <td className="accuracy-total">{formatError(piece.total)}</td>
+            </tr>
+          ))}
+        </tbody>
+        <tfoot>
+          <tr>
+            <td colSpan={isIoU ? 6 : 5}>總誤差</td>
+            <td className="accuracy-total">{report.total.toFixed(2)}{getErrorUnit(report.scoring)}</td>
+          </tr>
+        </tfoot>
+      </table>
+    </div>
+  );
+}
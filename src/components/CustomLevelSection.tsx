@@ -0,0 +1,145 @@
+import { useState } from 'react';
+import type { ChangeEvent } from 'react';
+import { useGameStore } from '../stores/gameStore';
+import { encodeShareCode, getShareUrl, parseLevelJson, parseShareCode, serializeLevelConfig } from '../levels';
+import type { LevelValidationIssue, LevelValidationResult } from '../levels';
+import type { LevelConfig } from '../types';
+import './CustomLevelSection.css';
+
+interface CustomLevelSectionProps {
+  activeKey: string | null;            // 目前遊玩中的自訂關卡
+  currentLevel: LevelConfig | null;    // 匯出用
+  onSelect: (key: string) => void;
+}
+
+// 關卡選擇面板中的自訂關卡區塊 - 匯入檔案/分享碼、匯出目前關卡
+export function CustomLevelSection({ activeKey, currentLevel, onSelect }: CustomLevelSectionProps) {
+  const { customLevels, addCustomLevel, removeCustomLevel } = useGameStore();
+  const [shareCode, setShareCode] = useState('');
+  const [message, setMessage] = useState<string | null>(null);
+  const [importIssues, setImportIssues] = useState<LevelValidationIssue[]>([]);
+
+  // 驗證通過就加入列表並開始遊玩
+  const handleImportResult = (result: LevelValidationResult) => {
+    if (!result.ok) {
+      setImportIssues(result.issues);
+      return;
+    }
+    setImportIssues([]);
+    onSelect(addCustomLevel(result.config));
+  };
+
+  const handleFileChange = (e: ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';  // 允許重複選擇同一個檔案
+    if (!file) return;
+
+    file.text().then(
+      (text) => handleImportResult(parseLevelJson(text, file.name)),
+      () => setImportIssues([{ file: file.name, path: '$', message: '無法讀取檔案' }]),
+    );
+  };
+
+  const handleImportCode = () => {
+    if (!shareCode.trim()) return;
+    handleImportResult(parseShareCode(shareCode));
+    setShareCode('');
+  };
+
+  const handleExportFile = () => {
+    if (!currentLevel) return;
+
+    const blob = new Blob([serializeLevelConfig(currentLevel)], { type: 'application/json' });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `level${currentLevel.level_id}.json`;
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  const copyToClipboard = (text: string, label: string) => {
+    navigator.clipboard.writeText(text).then(
+      () => setMessage(`已複製${label}`),
+      () => setMessage('無法存取剪貼簿'),
+    );
+  };
+
+  return (
+    <div className="custom-level-section">
+      <div className="level-section-title">自訂關卡</div>
+
+      {customLevels.length === 0 && <p className="custom-level-empty">尚無自訂關卡，可匯入 JSON 檔或分享碼</p>}
+
+      {customLevels.map(({ key, config }) => (
+        <div key={key} className={`level-option custom-level-option ${key === activeKey ? 'active' : ''}`}>
+          <button className="custom-level-select" onClick={() => onSelect(key)}>
+            <span className="level-option-number">Level {config.level_id}</span>
+            <span className="level-option-title">{config.title}</span>
+          </button>
+          <button
+            className="custom-level-remove"
+            onClick={() => removeCustomLevel(key)}
+            aria-label="移除自訂關卡"
+            title="移除"
+          >
+            ×
+          </button>
+        </div>
+      ))}
+
+      {/* 匯入 */}
+      <div className="custom-level-actions">
+        <label className="custom-level-btn">
+          匯入檔案
+          <input type="file" accept=".json,application/json" onChange={handleFileChange} hidden />
+        </label>
+        <input
+          className="custom-level-code"
+          type="text"
+          value={shareCode}
+          placeholder="貼上分享碼或連結"
+          onChange={(e) => setShareCode(e.target.value)}
+          onKeyDown={(e) => e.key === 'Enter' && handleImportCode()}
+        />
+        <button className="custom-level-btn" onClick={handleImportCode} disabled={!shareCode.trim()}>
+          匯入
+        </button>
+      </div>
+
+      {/* 匯出目前關卡 */}
+      <div className="custom-level-actions">
+        <button className="custom-level-btn" onClick={handleExportFile} disabled={!currentLevel}>
+          匯出目前關卡
+        </button>
+        <button
+          className="custom-level-btn"
+          onClick={() => currentLevel && copyToClipboard(encodeShareCode(currentLevel), '分享碼')}
+          disabled={!currentLevel}
+        >
+          複製分享碼
+        </button>
+        <button
+          className="custom-level-btn"
+          onClick={() => currentLevel && copyToClipboard(getShareUrl(currentLevel, window.location.href), '分享連結')}
+          disabled={!currentLevel}
+        >
+          複製連結
+        </button>
+      </div>
+
+      {importIssues.length > 0 && (
+        <ul className="custom-level-issues">
+          {importIssues.map((issue, index) => (
+            <li key={index} className="custom-level-issue">
+              <code className="custom-level-issue-path">{issue.path}</code>
+              <span>{issue.message}</span>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      {message && <p className="custom-level-message">{message}</p>}
+    </div>
+  );
+}
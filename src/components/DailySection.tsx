@@ -0,0 +1,79 @@
+import { useGameStore } from '../stores/gameStore';
+import { getDailyDateKey, getDailyDifficulty, getDailyStreak } from '../levels';
+import type { GeneratorDifficulty } from '../levels';
+import { formatDuration, getRatingStars } from '../utils';
+import './DailySection.css';
+
+interface DailySectionProps {
+  isActive: boolean;                      // 目前正在玩每日挑戰
+  onSelect: (dateKey: string) => void;
+}
+
+const DIFFICULTY_LABELS: Record<GeneratorDifficulty, string> = {
+  easy: '簡單',
+  normal: '普通',
+  hard: '困難',
+};
+
+// 顯示的歷史筆數
+const HISTORY_LIMIT = 7;
+
+// 關卡選擇面板中的每日挑戰區塊 - 今日關卡、連續天數與歷史成績
+export function DailySection({ isActive, onSelect }: DailySectionProps) {
+  const { dailyResults, dailyAttempts } = useGameStore();
+  const todayKey = getDailyDateKey();
+  const todayResult = dailyResults.find((result) => result.date === todayKey);
+  // 已開始但未過關（重新開始或離開）也用掉當天的計分機會
+  const isTodayAttempted = dailyAttempts.includes(todayKey);
+  const streak = getDailyStreak(dailyResults, todayKey);
+  const history = dailyResults.slice(-HISTORY_LIMIT).reverse();
+
+  return (
+    <div className="daily-section">
+      <div className="level-section-title">每日挑戰</div>
+
+      <button
+        className={`level-option ${isActive ? 'active' : ''}`}
+        onClick={() => onSelect(todayKey)}
+      >
+        <span className="level-option-number">Daily</span>
+        <span className="level-option-title">
+          {todayKey}・{DIFFICULTY_LABELS[getDailyDifficulty(todayKey)]}
+        </span>
+        <span className="level-option-best">
+          {todayResult ? getRatingStars(todayResult.rating) : isTodayAttempted ? '未完成' : '未挑戰'}
+        </span>
+      </button>
+
+      <div className="daily-summary">
+        <span className="daily-streak">🔥 連續 {streak} 天</span>
+        {isTodayAttempted && <span className="daily-note">今日已計分，再玩為練習</span>}
+      </div>
+
+      {history.length > 0 && (
+        <table className="daily-history">
+          <thead>
+            <tr>
+              <th>日期</th>
+              <th>評級</th>
+              <th>誤差</th>
+              <th>步數</th>
+              <th>時間</th>
+            </tr>
+          </thead>
+          <tbody>
+            {history.map((result) => (
+              <tr key={result.date}>
+                <td>{result.date.slice(5)}</td>
+                <td className="daily-history-rating">{getRatingStars(result.rating)}</td>
+                <td>{result.totalError.toFixed(2)}px</td>
+                <td>{result.actionCount}</td>
+                <td>{formatDuration(result.durationMs)}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,123 @@
+import { useEffect, useRef } from 'react';
+import { useEditorStore } from '../stores/editorStore';
+import { GameEngine } from '../game/GameEngine';
+import { getSnapStep } from '../utils';
+import type { EditorMode, LevelConfig, PieceConfig, PieceState } from '../types';
+
+interface EditorCanvasProps {
+  canvas: LevelConfig['canvas'];  // 碎片由 store 同步
+}
+
+// 依編輯模式顯示目標或起始變換
+function toPieceState(piece: PieceConfig, mode: EditorMode): PieceState {
+  return {
+    id: piece.id,
+    texture: piece.texture,
+    shape: piece.shape,
+    current: { ...(mode === 'target' ? piece.target_transform : piece.start_transform) },
+    target: { ...piece.target_transform },
+  };
+}
+
+// 形狀或貼圖改變時需重新產生碎片
+function getAppearanceKey(piece: PieceConfig): string {
+  return JSON.stringify([piece.texture, piece.shape]);
+}
+
+// 關卡編輯器畫布 - 沿用 GameEngine 的拖曳、滾輪旋轉/縮放與 snap
+export function EditorCanvas({ canvas }: EditorCanvasProps) {
+  const { width, height, background } = canvas;
+  const containerRef = useRef<HTMLDivElement>(null);
+  const engineRef = useRef<GameEngine | null>(null);
+  // 引擎中已建立的碎片與其外觀
+  const renderedRef = useRef<Map<string, string>>(new Map());
+
+  const { draft, mode, selectedPieceId, selectPiece, updatePieceTransform } = useEditorStore();
+
+  // 初始化遊戲引擎（畫布尺寸或背景改變時重建）
+  useEffect(() => {
+    if (!containerRef.current) return;
+
+    const { draft: initialDraft, mode: initialMode, selectedPieceId: initialSelected } = useEditorStore.getState();
+    const rendered = renderedRef.current;
+    const engine = new GameEngine({
+      container: containerRef.current,
+      levelConfig: { ...initialDraft, canvas: { width, height, background } },
+      onPieceSelect: (id) => {
+        selectPiece(id);
+      },
+      onPieceTransformEnd: (id, x, y) => {
+        updatePieceTransform(id, { x, y });
+      },
+      onDoubleTap: (pieceId) => {
+        selectPiece(pieceId);
+      },
+      onRotate: (pieceId, rotation) => {
+        updatePieceTransform(pieceId, { rotation });
+      },
+      onScale: (pieceId, scaleX, scaleY) => {
+        updatePieceTransform(pieceId, { scaleX, scaleY });
+      },
+      getSnapState: () => ({
+        enabled: true,
+        size: getSnapStep(useEditorStore.getState().snapSize),
+      }),
+    });
+
+    engineRef.current = engine;
+
+    initialDraft.pieces.forEach((piece) => rendered.set(piece.id, getAppearanceKey(piece)));
+    engine.setSelectedPiece(initialSelected);
+    engine.loadPieces(initialDraft.pieces.map((piece) => toPieceState(piece, initialMode)));
+
+    return () => {
+      engine.destroy();
+      engineRef.current = null;
+      rendered.clear();
+    };
+  }, [width, height, background, selectPiece, updatePieceTransform]);
+
+  // 同步碎片：新增、移除、外觀變更與目前模式的變換
+  useEffect(() => {
+    const engine = engineRef.current;
+    if (!engine) return;
+
+    const rendered = renderedRef.current;
+    const ids = new Set(draft.pieces.map((piece) => piece.id));
+
+    for (const id of Array.from(rendered.keys())) {
+      if (!ids.has(id)) {
+        engine.removePiece(id);
+        rendered.delete(id);
+      }
+    }
+
+    draft.pieces.forEach((piece) => {
+      const state = toPieceState(piece, mode);
+      const key = getAppearanceKey(piece);
+      if (rendered.get(piece.id) !== key) {
+        rendered.set(piece.id, key);
+        engine.addPiece(state);
+      } else {
+        engine.updatePiece(piece.id, state.current);
+      }
+    });
+  }, [draft.pieces, mode]);
+
+  // 同步選取狀態
+  useEffect(() => {
+    engineRef.current?.setSelectedPiece(selectedPieceId);
+  }, [selectedPieceId]);
+
+  return (
+    <div
+      ref={containerRef}
+      style={{
+        width,
+        height,
+        touchAction: 'none',
+        userSelect: 'none',
+      }}
+    />
+  );
+}
@@ -1,56 +1,117 @@
-import { useState, useEffect, useCallback, useRef } from 'react';
+import { useState, useEffect, useCallback, useMemo, useRef } from 'react';
 import { GameCanvas } from './GameCanvas';
 import { PreviewButton, PreviewOverlay } from './PreviewButton';
 import { WinScreen } from './WinScreen';
 import { WinTransition } from './WinTransition';
 import { ReplayPlayer } from './ReplayPlayer';
+import { ReplaySection } from './ReplaySection';
 import { TargetPreview } from './TargetPreview';
 import { PixelGrid } from './PixelGrid';
 import { TransformControls } from './TransformControls';
 import { SnapFeedback } from './SnapFeedback';
+import { HintPanel } from './HintPanel';
+import { ResumePrompt } from './ResumePrompt';
+import { LevelErrorScreen } from './LevelErrorScreen';
+import { CustomLevelSection } from './CustomLevelSection';
+import { DailySection } from './DailySection';
+import { AccuracyPanel } from './AccuracyPanel';
 import { useGameStore } from '../stores/gameStore';
 import { useResponsiveScale } from '../hooks/useResponsiveScale';
 import { usePinchZoom } from '../hooks/usePinchZoom';
-import type { LevelConfig, SnapSize } from '../types';
-import level1Config from '../assets/levels/level1/config.json';
-import level2Config from '../assets/levels/level2/config.json';
-import level3Config from '../assets/levels/level3/config.json';
-import level4Config from '../assets/levels/level4/config.json';
-import level5Config from '../assets/levels/level5/config.json';
-import level6Config from '../assets/levels/level6/config.json';
-import level7Config from '../assets/levels/level7/config.json';
-import level8Config from '../assets/levels/level8/config.json';
-import level9Config from '../assets/levels/level9/config.json';
-import level10Config from '../assets/levels/level10/config.json';
-import level11Config from '../assets/levels/level11/config.json';
+import { useKeyboardControls } from '../hooks/useKeyboardControls';
+import type { LevelConfig, ReplayFile, ResumeSnapshot, ScoringMode, SnapSize } from '../types';
+import { formatDuration, getErrorReport, getErrorUnit, getHintSteps } from '../utils';
+import {
+  SHARE_URL_PARAM,
+  createReplayFile,
+  generateDailyLevel,
+  getShareCodeFromUrl,
+  isGhostRunFor,
+  levelRegistry,
+  levelRegistryIssues,
+  parseShareCode,
+} from '../levels';
+import type { LevelValidationIssue } from '../levels';
 import './Game.css';
 
-// 關卡列表
-const levels: LevelConfig[] = [
-  level1Config as LevelConfig,
-  level2Config as LevelConfig,
-  level3Config as LevelConfig,
-  level4Config as LevelConfig,
-  level5Config as LevelConfig,
-  level6Config as LevelConfig,
-  level7Config as LevelConfig,
-  level8Config as LevelConfig,
-  level9Config as LevelConfig,
-  level10Config as LevelConfig,
-  level11Config as LevelConfig,
-];
-
-export function Game() {
+// 關卡選擇面板顯示用的標題（捲動到可見範圍時才載入）
+type LevelSummary = { title?: string; scoring?: ScoringMode; invalid?: boolean };
+
+interface GameProps {
+  onOpenEditor?: () => void;  // 開啟關卡編輯器
+}
+
+export function Game({ onOpenEditor }: GameProps) {
   const [currentLevelIndex, setCurrentLevelIndex] = useState(0);
-  const [levelConfig, setLevelConfig] = useState<LevelConfig | null>(null);
-  const [showReplay, setShowReplay] = useState(false);
+  // 已載入的關卡設定（以索引標記，切換關卡時舊設定自動失效）
+  const [loadedLevel, setLoadedLevel] = useState<{ index: number; config: LevelConfig } | null>(null);
+  const [failedLevel, setFailedLevel] = useState<{ index: number; issues: LevelValidationIssue[] } | null>(null);
+  const [levelSummaries, setLevelSummaries] = useState<Record<number, LevelSummary>>({});
+  // 播放中的回放（自己剛完成的一局，或從檔案載入）
+  const [replayView, setReplayView] = useState<{ replay: ReplayFile; config: LevelConfig } | null>(null);
   const [showTargetPreview, setShowTargetPreview] = useState(true);
   const [gameReady, setGameReady] = useState(false);
   const [showLevelSelect, setShowLevelSelect] = useState(false);
-  const [isShaking, setIsShaking] = useState(false);
   const [gameKey, setGameKey] = useState(0); // 用於強制重新掛載 GameCanvas
   const viewportRef = useRef<HTMLDivElement>(null);
-  const { snapSize, setSnapSize, resetLevel, isPreviewActive, gameState, activeFeedback } = useGameStore();
+  const levelSelectRef = useRef<HTMLDivElement>(null);
+  // 上次未完成的關卡（重新整理後詢問是否繼續）
+  const [pendingResume, setPendingResume] = useState<ResumeSnapshot | null>(() => {
+    const snapshot = useGameStore.getState().resumeSnapshot;
+    return snapshot && levelRegistry.some((entry) => entry.levelId === snapshot.levelId) ? snapshot : null;
+  });
+  const [activeResume, setActiveResume] = useState<ResumeSnapshot | null>(null);
+  const [ignoreRegistryIssues, setIgnoreRegistryIssues] = useState(false);
+  // 網址中的分享碼（?level=...），開啟時自動匯入
+  const [sharedLevel] = useState(() => {
+    const code = getShareCodeFromUrl(window.location.href);
+    return code ? parseShareCode(code) : null;
+  });
+  // 目前遊玩的自訂關卡（null 為內建關卡）
+  const [customLevelKey, setCustomLevelKey] = useState<string | null>(() =>
+    sharedLevel?.ok ? useGameStore.getState().addCustomLevel(sharedLevel.config) : null
+  );
+  // 目前遊玩的每日挑戰（null 為一般關卡）
+  const [dailyLevel, setDailyLevel] = useState<{ date: string; config: LevelConfig } | null>(null);
+  const [shareIssues, setShareIssues] = useState<LevelValidationIssue[] | null>(() =>
+    sharedLevel && !sharedLevel.ok ? sharedLevel.issues : null
+  );
+  const {
+    snapSize,
+    setSnapSize,
+    resetLevel,
+    isPreviewActive,
+    gameState,
+    activeFeedback,
+    undoStack,
+    redoStack,
+    undo,
+    redo,
+    levelProgress,
+    unlockLevel,
+    preferences,
+    setPreference,
+    clearResumeSnapshot,
+    suspendLevel,
+    customLevels,
+    pieces,
+    actionLogs,
+    winRating,
+    totalError,
+    ghostRuns,
+  } = useGameStore();
+
+  const customLevel = customLevels.find((level) => level.key === customLevelKey) ?? null;
+  const builtinConfig = loadedLevel?.index === currentLevelIndex ? loadedLevel.config : null;
+  const levelConfig = dailyLevel?.config ?? (customLevel ? customLevel.config : builtinConfig);
+  const levelIssues = failedLevel?.index === currentLevelIndex ? failedLevel.issues : null;
+
+  // 內建關卡的幽靈（關卡內容改變後的舊紀錄不使用）
+  const ghostRun = useMemo(() => {
+    if (!builtinConfig || customLevel || dailyLevel) return null;
+    const run = ghostRuns[builtinConfig.level_id];
+    return isGhostRunFor(run, builtinConfig) ? run : null;
+  }, [ghostRuns, builtinConfig, customLevel, dailyLevel]);
 
   // 響應式縮放
   const { scale: baseScale } = useResponsiveScale(
@@ -71,10 +132,32 @@ export function Game() {
   } = usePinchZoom({ minScale: 1, maxScale: 5 });
 
   useEffect(() => {
-    // 載入關卡設定
-    setLevelConfig(levels[currentLevelIndex]);
+    // 載入關卡設定（各關卡分開打包，切換時才下載）
+    const entry = levelRegistry[currentLevelIndex];
+    if (!entry) return;
+
+    let cancelled = false;
+    entry.load().then((result) => {
+      if (cancelled) return;
+      if (result.ok) {
+        setLoadedLevel({ index: currentLevelIndex, config: result.config });
+      } else {
+        setFailedLevel({ index: currentLevelIndex, issues: result.issues });
+      }
+    });
+    return () => {
+      cancelled = true;
+    };
   }, [currentLevelIndex]);
 
+  // 分享碼匯入後從網址移除，避免重新整理時重複匯入
+  useEffect(() => {
+    if (!sharedLevel) return;
+    const url = new URL(window.location.href);
+    url.searchParams.delete(SHARE_URL_PARAM);
+    window.history.replaceState(null, '', url);
+  }, [sharedLevel]);
+
   // 過關時自動重置視圖（在過渡動畫開始時就重置）
   useEffect(() => {
     if (gameState === 'WINNING' || gameState === 'WIN') {
@@ -82,50 +165,104 @@ export function Game() {
     }
   }, [gameState, resetView]);
 
-  // 位置對齊或過關時觸發螢幕震動
+  // 過關後解鎖下一關
   useEffect(() => {
-    if (activeFeedback === 'positionX' || activeFeedback === 'positionY') {
-      setIsShaking(true);
-      const timer = setTimeout(() => {
-        setIsShaking(false);
-      }, 500);
-      return () => clearTimeout(timer);
+    if (gameState === 'WIN' && !customLevel && !dailyLevel && currentLevelIndex < levelRegistry.length - 1) {
+      unlockLevel(levelRegistry[currentLevelIndex + 1].levelId);
     }
-  }, [activeFeedback]);
+  }, [gameState, customLevel, dailyLevel, currentLevelIndex, unlockLevel]);
+
+  // 位置對齊或過關時觸發螢幕震動（過關過渡時震動較久）
+  const shakeTrigger =
+    activeFeedback === 'positionX' || activeFeedback === 'positionY'
+      ? activeFeedback
+      : gameState === 'WINNING' ? 'win' : null;
+  const [shakeState, setShakeState] = useState({ trigger: shakeTrigger, isShaking: false });
+  if (shakeState.trigger !== shakeTrigger) {
+    // 觸發來源改變時在 render 中同步更新，不需要在 effect 中 setState
+    setShakeState({ trigger: shakeTrigger, isShaking: shakeTrigger !== null });
+  }
+  const isShaking = shakeState.isShaking;
 
-  // 過關過渡時強烈震動
   useEffect(() => {
-    if (gameState === 'WINNING') {
-      setIsShaking(true);
-      const timer = setTimeout(() => {
-        setIsShaking(false);
-      }, 600);
-      return () => clearTimeout(timer);
-    }
-  }, [gameState]);
+    if (!shakeTrigger) return;
+    const timer = setTimeout(() => {
+      setShakeState((prev) => (prev.trigger === shakeTrigger ? { ...prev, isShaking: false } : prev));
+    }, shakeTrigger === 'win' ? 600 : 500);
+    return () => clearTimeout(timer);
+  }, [shakeTrigger]);
+
+  // 文字提示關卡：沒有預覽圖與開場倒數，只提供文字提示
+  const isTextHint = levelConfig?.level_type === 'text_hint';
+  const isReady = gameReady || isTextHint;
+
+  // 準確度面板：遊戲進行中顯示各碎片誤差，並在畫布上標示誤差最大的碎片
+  const showAccuracy = preferences.showAccuracy && isReady && gameState === 'PLAYING';
+  const errorReport = showAccuracy ? getErrorReport(pieces, levelConfig?.scoring) : null;
+
+  // 鍵盤操作（選取、移動、旋轉、縮放、撤銷/重做）
+  useKeyboardControls(isReady);
 
   const handleTargetPreviewComplete = useCallback(() => {
     setShowTargetPreview(false);
     setGameReady(true);
   }, []);
 
+  // 從快照繼續：直接切到該關卡並略過開場預覽
+  const handleContinueResume = () => {
+    if (!pendingResume) return;
+    const index = levelRegistry.findIndex((entry) => entry.levelId === pendingResume.levelId);
+    setCurrentLevelIndex(index);
+    setCustomLevelKey(null);
+    setDailyLevel(null);
+    setActiveResume(pendingResume);
+    setPendingResume(null);
+    setShowTargetPreview(false);
+    setGameReady(true);
+    setGameKey(k => k + 1);
+  };
+
+  const handleDiscardResume = () => {
+    clearResumeSnapshot();
+    setPendingResume(null);
+  };
+
   const handleReplay = () => {
     // 重新載入同一關卡
+    setActiveResume(null);
+    const current = loadedLevel;
     resetLevel();
-    setLevelConfig(null);
+    setLoadedLevel(null);
     setShowTargetPreview(true);
     setGameReady(false);
     setGameKey(k => k + 1); // 強制重新掛載 GameCanvas
     setTimeout(() => {
-      setLevelConfig(levels[currentLevelIndex]);
+      setLoadedLevel(current);
     }, 100);
   };
 
   const handleNextLevel = () => {
-    if (currentLevelIndex < levels.length - 1) {
+    if (dailyLevel) {
+      // 每日挑戰結束後回到原本的內建或自訂關卡
+      setActiveResume(null);
+      resetLevel();
+      setShowTargetPreview(true);
+      setGameReady(false);
+      setGameKey(k => k + 1); // 強制重新掛載 GameCanvas
+      setDailyLevel(null);
+    } else if (customLevel) {
+      // 自訂關卡：依序玩下一個自訂關卡，最後一個結束後回到內建關卡
+      const next = customLevels[customLevels.indexOf(customLevel) + 1];
+      setActiveResume(null);
+      resetLevel();
+      setShowTargetPreview(true);
+      setGameReady(false);
+      setGameKey(k => k + 1); // 強制重新掛載 GameCanvas
+      setCustomLevelKey(next ? next.key : null);
+    } else if (currentLevelIndex < levelRegistry.length - 1) {
       // 載入下一關
+      setActiveResume(null);
       resetLevel();
-      setLevelConfig(null);
       setShowTargetPreview(true);
       setGameReady(false);
       setGameKey(k => k + 1); // 強制重新掛載 GameCanvas
@@ -137,23 +274,131 @@ export function Game() {
   };
 
   const handleSelectLevel = (index: number) => {
+    setActiveResume(null);
     resetLevel();
-    setLevelConfig(null);
     setShowTargetPreview(true);
     setGameReady(false);
     setShowLevelSelect(false);
     setGameKey(k => k + 1); // 強制重新掛載 GameCanvas
     setCurrentLevelIndex(index);
+    setCustomLevelKey(null);
+    setDailyLevel(null);
+  };
+
+  const handleSelectCustomLevel = (key: string) => {
+    setActiveResume(null);
+    resetLevel();
+    setShowTargetPreview(true);
+    setGameReady(false);
+    setShowLevelSelect(false);
+    setGameKey(k => k + 1); // 強制重新掛載 GameCanvas
+    setCustomLevelKey(key);
+    setDailyLevel(null);
+  };
+
+  const handleSelectDaily = (date: string) => {
+    setActiveResume(null);
+    resetLevel();
+    setShowTargetPreview(true);
+    setGameReady(false);
+    setShowLevelSelect(false);
+    setGameKey(k => k + 1); // 強制重新掛載 GameCanvas
+    setDailyLevel({ date, config: generateDailyLevel(date) });
+  };
+
+  const handleToggleLevelSelect = () => {
+    setShowLevelSelect(!showLevelSelect);
+  };
+
+  // 關卡選擇面板：只載入捲動到可見範圍、且尚無標題的關卡（不一次下載所有關卡設定）
+  useEffect(() => {
+    const panel = levelSelectRef.current;
+    if (!showLevelSelect || !panel) return;
+
+    const observer = new IntersectionObserver((observed) => {
+      observed.forEach(({ isIntersecting, target }) => {
+        if (!isIntersecting) return;
+        observer.unobserve(target);
+        const levelId = Number((target as HTMLElement).dataset.levelId);
+        levelRegistry.find((entry) => entry.levelId === levelId)?.load().then((result) => {
+          setLevelSummaries((prev) => ({
+            ...prev,
+            [levelId]: result.ok ? { title: result.config.title, scoring: result.config.scoring } : { invalid: true },
+          }));
+        });
+      });
+    }, { root: panel });
+
+    panel.querySelectorAll('[data-level-id]').forEach((option) => observer.observe(option));
+    return () => observer.disconnect();
+  }, [showLevelSelect]);
+
+  // 開啟關卡編輯器前保存目前進度，返回時詢問是否繼續
+  const handleOpenEditor = () => {
+    suspendLevel();
+    onOpenEditor?.();
   };
 
+  // 觀看剛完成的一局；自訂與每日關卡內嵌設定，其他玩家才能播放下載的檔案
   const handleWatchReplay = () => {
-    setShowReplay(true);
+    if (!levelConfig) return;
+    const replay = createReplayFile({
+      config: levelConfig,
+      actionLogs,
+      pieces,
+      snapSize,
+      rating: winRating,
+      totalError,
+      embedLevel: customLevel !== null || dailyLevel !== null,
+    });
+    setReplayView({ replay, config: levelConfig });
+  };
+
+  const handleOpenReplayFile = (replay: ReplayFile, config: LevelConfig) => {
+    setShowLevelSelect(false);
+    setReplayView({ replay, config });
   };
 
   const handleCloseReplay = () => {
-    setShowReplay(false);
+    setReplayView(null);
   };
 
+  // 關卡資料夾命名錯誤：顯示錯誤畫面而不是壞掉的畫布
+  if (levelRegistryIssues.length > 0 && (!ignoreRegistryIssues || levelRegistry.length === 0)) {
+    return (
+      <LevelErrorScreen
+        issues={levelRegistryIssues}
+        onContinue={levelRegistry.length > 0 ? () => setIgnoreRegistryIssues(true) : undefined}
+      />
+    );
+  }
+
+  // 分享連結中的關卡無效：列出錯誤後進入一般遊戲
+  if (shareIssues) {
+    return <LevelErrorScreen issues={shareIssues} onContinue={() => setShareIssues(null)} />;
+  }
+
+  if (pendingResume) {
+    return (
+      <ResumePrompt
+        snapshot={pendingResume}
+        onContinue={handleContinueResume}
+        onDiscard={handleDiscardResume}
+      />
+    );
+  }
+
+  // 目前關卡設定錯誤：可略過並前往下一關
+  if (levelIssues && !customLevel && !dailyLevel) {
+    const nextIndex = (currentLevelIndex + 1) % levelRegistry.length;
+    return (
+      <LevelErrorScreen
+        issues={levelIssues}
+        onContinue={nextIndex !== currentLevelIndex ? () => handleSelectLevel(nextIndex) : undefined}
+      />
+    );
+  }
+
   if (!levelConfig) {
     return (
       <div className="game-loading">
@@ -168,40 +413,78 @@ export function Game() {
       <div className="level-header">
         <button
           className="level-select-btn"
-          onClick={() => setShowLevelSelect(!showLevelSelect)}
+          onClick={handleToggleLevelSelect}
         >
-          Level {levelConfig.level_id}
+          {dailyLevel ? 'Daily' : `Level ${levelConfig.level_id}`}
           <svg viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" width="16" height="16">
             <path d="M6 9l6 6 6-6" />
           </svg>
         </button>
         <span className="level-title">
+          {customLevel && !dailyLevel && '自訂・'}
           {levelConfig.title || (levelConfig.level_type === 'image_match' ? '圖片對齊' : '文字提示')}
         </span>
       </div>
 
+      {/* 文字提示面板（text_hint 關卡） */}
+      {isTextHint && (
+        <HintPanel key={`${levelConfig.level_id}-${gameKey}`} hints={getHintSteps(levelConfig)} />
+      )}
+
       {/* 關卡選擇面板 */}
       {showLevelSelect && (
-        <div className="level-select-panel">
-          {levels.map((level, index) => (
-            <button
-              key={level.level_id}
-              className={`level-option ${index === currentLevelIndex ? 'active' : ''}`}
-              onClick={() => handleSelectLevel(index)}
-            >
-              <span className="level-option-number">Level {level.level_id}</span>
-              <span className="level-option-title">{level.title}</span>
+        <div className="level-select-panel" ref={levelSelectRef}>
+          <DailySection isActive={dailyLevel !== null} onSelect={handleSelectDaily} />
+          <div className="level-section-title">內建關卡</div>
+          {levelRegistry.map(({ levelId }, index) => {
+            const progress = levelProgress[levelId];
+            const summary = levelSummaries[levelId];
+
+            return (
+              <button
+                key={levelId}
+                className={`level-option ${!customLevel && !dailyLevel && index === currentLevelIndex ? 'active' : ''}`}
+                onClick={() => handleSelectLevel(index)}
+                // 尚未載入（或上次載入失敗）的關卡，開啟面板時重新載入
+                data-level-id={!summary || summary.invalid ? levelId : undefined}
+              >
+                <span className="level-option-number">Level {levelId}</span>
+                <span className="level-option-title">
+                  {summary?.invalid ? '⚠ 設定錯誤' : summary?.title}
+                </span>
+                {progress && (
+                  <span
+                    className="level-option-best"
+                    title={`最小誤差 ${progress.bestTotalError.toFixed(2)}${getErrorUnit(summary?.scoring)}・最少 ${progress.fewestActions} 步`}
+                  >
+                    {progress.bestRating === 'Perfect' && '★★★'}
+                    {progress.bestRating === 'Great' && '★★☆'}
+                    {progress.bestRating === 'Good' && '★☆☆'}
+                  </span>
+                )}
+              </button>
+            );
+          })}
+          <CustomLevelSection
+            activeKey={dailyLevel ? null : customLevel?.key ?? null}
+            currentLevel={levelConfig}
+            onSelect={handleSelectCustomLevel}
+          />
+          <ReplaySection onOpen={handleOpenReplayFile} />
+          {onOpenEditor && (
+            <button className="level-option level-option-editor" onClick={handleOpenEditor}>
+              <span className="level-option-number">✎ 關卡編輯器</span>
             </button>
-          ))}
+          )}
         </div>
       )}
 
       {/* 縮放容器 - 處理雙指縮放（只有遊戲開始後才能縮放） */}
       <div
         className="zoom-container"
-        onTouchStart={gameReady ? handleTouchStart : undefined}
-        onTouchMove={gameReady ? handleTouchMove : undefined}
-        onTouchEnd={gameReady ? handleTouchEnd : undefined}
+        onTouchStart={isReady ? handleTouchStart : undefined}
+        onTouchMove={isReady ? handleTouchMove : undefined}
+        onTouchEnd={isReady ? handleTouchEnd : undefined}
         style={{
           transform: `scale(${userScale}) translate(${translateX / userScale}px, ${translateY / userScale}px)`,
           transformOrigin: 'center center',
@@ -221,7 +504,7 @@ export function Game() {
         <PixelGrid
           width={levelConfig.canvas.width}
           height={levelConfig.canvas.height}
-          visible={true}
+          visible={preferences.showGrid || isPreviewActive}
           gridSize={snapSize === 1 ? 5 : snapSize === 5 ? 10 : 20}
           targetPositions={isPreviewActive ? levelConfig.pieces.map(p => ({
             x: p.target_transform.x,
@@ -230,10 +513,18 @@ export function Game() {
         />
 
         {/* 遊戲畫布 */}
-        <GameCanvas key={gameKey} levelConfig={levelConfig} />
+        <GameCanvas
+          key={gameKey}
+          levelConfig={levelConfig}
+          resumeSnapshot={activeResume}
+          isCustomLevel={customLevel !== null && !dailyLevel}
+          dailyDate={dailyLevel?.date}
+          highlightPieceId={errorReport?.worstPieceId ?? null}
+          ghostRun={preferences.showGhost ? ghostRun : null}
+        />
 
         {/* 目標位置預覽（遊戲開始時） */}
-        {showTargetPreview && (
+        {showTargetPreview && !isTextHint && (
           <TargetPreview
             levelConfig={levelConfig}
             onComplete={handleTargetPreviewComplete}
@@ -241,7 +532,7 @@ export function Game() {
         )}
 
         {/* 預覽覆蓋層 - 疊加在遊戲畫面上 */}
-        {gameReady && (
+        {gameReady && !isTextHint && (
           <PreviewOverlay
             previewImage={levelConfig.preview_image}
             canvasWidth={levelConfig.canvas.width}
@@ -281,8 +572,77 @@ export function Game() {
             </button>
           ))}
         </div>
+        {/* 網格開關 */}
+        <button
+          className={`toolbar-btn grid-toggle-btn ${preferences.showGrid ? 'active' : ''}`}
+          onClick={() => setPreference('showGrid', !preferences.showGrid)}
+          aria-label="切換網格"
+          title="切換網格"
+        >
+          <svg viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2">
+            <path d="M3 3h18v18H3z" />
+            <path d="M3 9h18M3 15h18M9 3v18M15 3v18" />
+          </svg>
+        </button>
+        {/* 準確度面板開關 */}
+        <button
+          className={`toolbar-btn accuracy-toggle-btn ${preferences.showAccuracy ? 'active' : ''}`}
+          onClick={() => setPreference('showAccuracy', !preferences.showAccuracy)}
+          aria-label="切換準確度面板"
+          title="準確度面板"
+        >
+          <svg viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2">
+            <circle cx="12" cy="12" r="8" />
+            <circle cx="12" cy="12" r="3" />
+            <path d="M12 2v4M12 18v4M2 12h4M18 12h4" />
+          </svg>
+        </button>
+        {/* 幽靈開關（有最佳紀錄時顯示） */}
+        {ghostRun && (
+          <button
+            className={`toolbar-btn ghost-toggle-btn ${preferences.showGhost ? 'active' : ''}`}
+            onClick={() => setPreference('showGhost', !preferences.showGhost)}
+            aria-label="切換幽靈"
+            title={`與最佳紀錄競速（${formatDuration(ghostRun.durationMs)}）`}
+          >
+            <svg viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2">
+              <path d="M5 21V11a7 7 0 0 1 14 0v10l-2.5-2-2.5 2-2-2-2 2-2.5-2z" />
+              <circle cx="9.5" cy="11" r="1" />
+              <circle cx="14.5" cy="11" r="1" />
+            </svg>
+          </button>
+        )}
+        {/* 撤銷/重做按鈕 */}
+        {isReady && (
+          <>
+            <button
+              className="toolbar-btn undo-btn"
+              onClick={undo}
+              disabled={undoStack.length === 0 || gameState !== 'PLAYING'}
+              aria-label="撤銷"
+              title="撤銷 (Ctrl+Z)"
+            >
+              <svg viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2">
+                <path d="M9 14L4 9l5-5" />
+                <path d="M4 9h11a5 5 0 0 1 0 10h-3" />
+              </svg>
+            </button>
+            <button
+              className="toolbar-btn redo-btn"
+              onClick={redo}
+              disabled={redoStack.length === 0 || gameState !== 'PLAYING'}
+              aria-label="重做"
+              title="重做 (Ctrl+Shift+Z)"
+            >
+              <svg viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2">
+                <path d="M15 14l5-5-5-5" />
+                <path d="M20 9H9a5 5 0 0 0 0 10h3" />
+              </svg>
+            </button>
+          </>
+        )}
         {/* 預覽按鈕 */}
-        {gameReady && <PreviewButton />}
+        {gameReady && !isTextHint && <PreviewButton />}
         {/* 重置視圖按鈕 */}
         {isZoomed && (
           <button className="reset-view-btn" onClick={resetView}>
@@ -291,11 +651,16 @@ export function Game() {
         )}
       </div>
 
+      {/* 準確度面板 */}
+      {errorReport && <AccuracyPanel report={errorReport} className="floating" />}
+
       {/* 回放播放器 */}
-      {showReplay && <ReplayPlayer onClose={handleCloseReplay} />}
+      {replayView && (
+        <ReplayPlayer replay={replayView.replay} levelConfig={replayView.config} onClose={handleCloseReplay} />
+      )}
 
       {/* 旋轉/縮放控制（選取方塊後顯示） */}
-      {gameReady && <TransformControls />}
+      {isReady && <TransformControls />}
 
       {/* 視覺回饋效果 */}
       <SnapFeedback />
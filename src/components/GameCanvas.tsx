@@ -1,21 +1,39 @@
 import { useEffect, useRef } from 'react';
 import { useGameStore } from '../stores/gameStore';
 import { GameEngine } from '../game/GameEngine';
-import type { LevelConfig } from '../types';
+import { buildReplayTimeline, getActionIndexAtTime, getPiecesAtIndex } from '../levels';
+import { getSnapStep } from '../utils';
+import type { GhostRun, LevelConfig, ResumeSnapshot } from '../types';
 
 interface GameCanvasProps {
   levelConfig: LevelConfig;
+  resumeSnapshot?: ResumeSnapshot | null;  // 有快照時從上次進度繼續
+  isCustomLevel?: boolean;                 // 匯入的自訂關卡
+  dailyDate?: string | null;               // 每日挑戰的日期
+  highlightPieceId?: string | null;        // 以紅框標示的碎片（誤差最大者）
+  ghostRun?: GhostRun | null;              // 與本局同步重現的最佳紀錄
 }
 
-export function GameCanvas({ levelConfig }: GameCanvasProps) {
+export function GameCanvas({
+  levelConfig,
+  resumeSnapshot = null,
+  isCustomLevel = false,
+  dailyDate = null,
+  highlightPieceId = null,
+  ghostRun = null,
+}: GameCanvasProps) {
   const containerRef = useRef<HTMLDivElement>(null);
   const engineRef = useRef<GameEngine | null>(null);
+  // 快照只在掛載時使用一次
+  const resumeSnapshotRef = useRef(resumeSnapshot);
 
   const {
     pieces,
     selectedPieceId,
     isPreviewActive,
+    gameState,
     loadLevel,
+    resumeLevel,
     selectPiece,
     updatePieceTransform,
     addActionLog,
@@ -26,8 +44,14 @@ export function GameCanvas({ levelConfig }: GameCanvasProps) {
   useEffect(() => {
     if (!containerRef.current) return;
 
-    // 載入關卡
-    loadLevel(levelConfig);
+    // 載入關卡（或從快照繼續）
+    const snapshot = resumeSnapshotRef.current;
+    resumeSnapshotRef.current = null;
+    if (snapshot && snapshot.levelId === levelConfig.level_id) {
+      resumeLevel(levelConfig, snapshot);
+    } else {
+      loadLevel(levelConfig, { custom: isCustomLevel, dailyDate: dailyDate ?? undefined });
+    }
 
     const engine = new GameEngine({
       container: containerRef.current,
@@ -89,28 +113,19 @@ export function GameCanvas({ levelConfig }: GameCanvasProps) {
         checkWinCondition();
       },
       getSnapState: () => {
-        const state = useGameStore.getState();
         // 實際 snap：1px→5, 5px→10, 10px→20
-        const actualSnap = state.snapSize === 1 ? 5 : state.snapSize === 5 ? 10 : 20;
         return {
           enabled: true,
-          size: actualSnap,
+          size: getSnapStep(useGameStore.getState().snapSize),
         };
       },
     });
 
     engineRef.current = engine;
 
-    // 載入碎片
+    // 載入碎片（使用 store 中的目前變換，繼續遊戲時即為快照位置）
     const loadPieces = async () => {
-      const initialPieces = levelConfig.pieces.map((p) => ({
-        id: p.id,
-        texture: p.texture,
-        shape: p.shape,
-        current: { ...p.start_transform },
-        target: { ...p.target_transform },
-      }));
-      await engine.loadPieces(initialPieces);
+      await engine.loadPieces(useGameStore.getState().pieces);
     };
 
     loadPieces();
@@ -137,6 +152,42 @@ export function GameCanvas({ levelConfig }: GameCanvasProps) {
     }
   }, [pieces]);
 
+  // 同步誤差標示
+  useEffect(() => {
+    if (engineRef.current) {
+      engineRef.current.setHighlightedPiece(highlightPieceId);
+    }
+  }, [highlightPieceId]);
+
+  // 幽靈：依最佳紀錄的操作時間重現（與本局共用開始時間，繼續遊戲時也會接上），過關後移除
+  const isPlaying = gameState === 'PLAYING';
+  useEffect(() => {
+    const engine = engineRef.current;
+    if (!engine || !ghostRun || !isPlaying) return;
+
+    const timeline = buildReplayTimeline(levelConfig, ghostRun.actionLogs);
+    // 已套用到幽靈的操作索引（null 表示幽靈碎片尚未載入完成、需要重新套用）
+    let appliedIndex: number | null = null;
+    engine.setGhostPieces(getPiecesAtIndex(timeline, -1)).then(() => {
+      appliedIndex = null;
+    });
+
+    let frame = requestAnimationFrame(function tick() {
+      const time = Date.now() - useGameStore.getState().gameStartTime;
+      const index = getActionIndexAtTime(timeline, time);
+      if (index !== appliedIndex) {
+        appliedIndex = index;
+        getPiecesAtIndex(timeline, index).forEach((piece) => engine.updateGhost(piece.id, piece.current));
+      }
+      frame = requestAnimationFrame(tick);
+    });
+
+    return () => {
+      cancelAnimationFrame(frame);
+      engine.setGhostPieces(null);
+    };
+  }, [levelConfig, ghostRun, isPlaying]);
+
   // 對答案時隱藏選取框
   useEffect(() => {
     if (engineRef.current) {
@@ -0,0 +1,53 @@
+import { useState } from 'react';
+import './HintPanel.css';
+
+interface HintPanelProps {
+  hints: string[];
+}
+
+// 文字提示面板 - 用於 text_hint 關卡，提示可逐步揭示
+export function HintPanel({ hints }: HintPanelProps) {
+  const [revealedCount, setRevealedCount] = useState(1);
+  const [collapsed, setCollapsed] = useState(false);
+
+  if (hints.length === 0) return null;
+
+  const visibleHints = hints.slice(0, revealedCount);
+  const hasMore = revealedCount < hints.length;
+
+  return (
+    <div className={`hint-panel ${collapsed ? 'collapsed' : ''}`}>
+      <button
+        className="hint-panel-header"
+        onClick={() => setCollapsed(!collapsed)}
+        aria-expanded={!collapsed}
+      >
+        <span className="hint-panel-label">HINT</span>
+        <span className="hint-panel-count">
+          {revealedCount} / {hints.length}
+        </span>
+      </button>
+
+      {!collapsed && (
+        <>
+          <ol className="hint-list">
+            {visibleHints.map((hint, index) => (
+              <li key={index} className="hint-step">
+                {hint}
+              </li>
+            ))}
+          </ol>
+
+          {hasMore && (
+            <button
+              className="hint-reveal-btn"
+              onClick={() => setRevealedCount((count) => Math.min(count + 1, hints.length))}
+            >
+              顯示下一則提示
+            </button>
+          )}
+        </>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,498 @@
+import { useState } from 'react';
+import { EditorCanvas } from './EditorCanvas';
+import { PixelGrid } from './PixelGrid';
+import { useEditorStore } from '../stores/editorStore';
+import {
+  DRAFT_PIECE_SIZE,
+  GENERATOR_PRESETS,
+  generateLevel,
+  levelRegistry,
+  serializeLevelConfig,
+  validateLevelConfig,
+} from '../levels';
+import type { GeneratorDifficulty, LevelGeneratorOptions, LevelValidationIssue } from '../levels';
+import { getSnapStep } from '../utils';
+import type { LevelConfig, ScoringMode, ShapeType, SnapSize, Transform } from '../types';
+import './LevelEditor.css';
+
+interface LevelEditorProps {
+  onClose: () => void;
+}
+
+// 匯出檔名（放到 src/assets/levels/level<id>/ 即可被關卡登錄表探索）
+const EXPORT_FILE_NAME = 'config.json';
+
+const SHAPE_LABELS: Record<ShapeType, string> = {
+  rectangle: '矩形',
+  circle: '圓形',
+  triangle: '三角形',
+  diamond: '菱形',
+  pentagon: '五邊形',
+  hexagon: '六邊形',
+  octagon: '八邊形',
+  star: '星形',
+  heart: '心形',
+  cross: '十字',
+};
+
+const TRANSFORM_FIELDS: { key: keyof Transform; label: string; step: number }[] = [
+  { key: 'x', label: 'X', step: 1 },
+  { key: 'y', label: 'Y', step: 1 },
+  { key: 'rotation', label: '旋轉', step: 5 },
+  { key: 'scaleX', label: '寬度倍率', step: 0.1 },
+  { key: 'scaleY', label: '高度倍率', step: 0.1 },
+];
+
+const DIFFICULTY_LABELS: Record<GeneratorDifficulty, string> = {
+  easy: '簡單',
+  normal: '普通',
+  hard: '困難',
+};
+
+interface NumberFieldProps {
+  label: string;
+  value: number;
+  step?: number;
+  min?: number;
+  onChange: (value: number) => void;
+}
+
+// 數值欄位（輸入中途的非數字內容直接忽略）
+function NumberField({ label, value, step = 1, min, onChange }: NumberFieldProps) {
+  return (
+    <label className="editor-field">
+      <span className="editor-field-label">{label}</span>
+      <input
+        type="number"
+        value={value}
+        step={step}
+        min={min}
+        onChange={(e) => {
+          const next = e.target.valueAsNumber;
+          if (Number.isFinite(next)) onChange(next);
+        }}
+      />
+    </label>
+  );
+}
+
+// 關卡編輯器 - 擺放碎片目標位置、打散起始位置並匯出 LevelConfig JSON
+export function LevelEditor({ onClose }: LevelEditorProps) {
+  const {
+    draft,
+    mode,
+    selectedPieceId,
+    snapSize,
+    loadDraft,
+    resetDraft,
+    updateMeta,
+    setMode,
+    setSnapSize,
+    addPiece,
+    removePiece,
+    updatePieceShape,
+    updatePieceTransform,
+    scatterStartTransforms,
+  } = useEditorStore();
+  const [exportIssues, setExportIssues] = useState<LevelValidationIssue[]>([]);
+  const [exportMessage, setExportMessage] = useState<string | null>(null);
+  const [generatorOptions, setGeneratorOptions] = useState<LevelGeneratorOptions>({
+    seed: 1,
+    ...GENERATOR_PRESETS.normal,
+  });
+  const [generatorError, setGeneratorError] = useState<string | null>(null);
+
+  const selectedPiece = draft.pieces.find((piece) => piece.id === selectedPieceId) ?? null;
+  const selectedTransform = selectedPiece
+    ? (mode === 'target' ? selectedPiece.target_transform : selectedPiece.start_transform)
+    : null;
+
+  // 以現有關卡為底稿
+  const handleLoadLevel = (index: number) => {
+    levelRegistry[index]?.load().then((result) => {
+      if (result.ok) {
+        loadDraft(result.config);
+        setExportIssues([]);
+        setExportMessage(null);
+      } else {
+        setExportIssues(result.issues);
+      }
+    });
+  };
+
+  const updateGeneratorOptions = (options: Partial<LevelGeneratorOptions>) => {
+    setGeneratorOptions((prev) => ({ ...prev, ...options }));
+  };
+
+  const toggleGeneratorShape = (type: ShapeType) => {
+    const { shapeTypes } = generatorOptions;
+    updateGeneratorOptions({
+      shapeTypes: shapeTypes.includes(type) ? shapeTypes.filter((t) => t !== type) : [...shapeTypes, type],
+    });
+  };
+
+  // 依種子產生關卡並取代目前草稿
+  const handleGenerate = () => {
+    try {
+      loadDraft(generateLevel({ ...generatorOptions, levelId: draft.level_id }));
+      setGeneratorError(null);
+      setExportIssues([]);
+      setExportMessage(null);
+    } catch (error) {
+      setGeneratorError(error instanceof Error ? error.message : String(error));
+    }
+  };
+
+  // 匯出前驗證，有錯誤時列出而不下載
+  const getValidConfig = (): LevelConfig | null => {
+    const result = validateLevelConfig(draft, EXPORT_FILE_NAME);
+    if (!result.ok) {
+      setExportIssues(result.issues);
+      setExportMessage(null);
+      return null;
+    }
+    setExportIssues([]);
+    return result.config;
+  };
+
+  const handleDownload = () => {
+    const config = getValidConfig();
+    if (!config) return;
+
+    const blob = new Blob([serializeLevelConfig(config)], { type: 'application/json' });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = EXPORT_FILE_NAME;
+    link.click();
+    URL.revokeObjectURL(url);
+    setExportMessage(`已下載，請放到 src/assets/levels/level${config.level_id}/`);
+  };
+
+  const handleCopy = () => {
+    const config = getValidConfig();
+    if (!config) return;
+
+    navigator.clipboard.writeText(serializeLevelConfig(config)).then(
+      () => setExportMessage('已複製 JSON'),
+      () => setExportMessage('無法存取剪貼簿'),
+    );
+  };
+
+  return (
+    <div className="level-editor">
+      {/* 側邊設定面板 */}
+      <aside className="editor-panel">
+        <div className="editor-header">
+          <h2 className="editor-title">關卡編輯器</h2>
+          <button className="editor-btn" onClick={onClose}>返回遊戲</button>
+        </div>
+
+        {/* 底稿 */}
+        <section className="editor-section">
+          <div className="editor-row">
+            <select
+              className="editor-select"
+              value=""
+              onChange={(e) => handleLoadLevel(Number(e.target.value))}
+            >
+              <option value="" disabled>載入現有關卡…</option>
+              {levelRegistry.map((entry, index) => (
+                <option key={entry.levelId} value={index}>Level {entry.levelId}</option>
+              ))}
+            </select>
+            <button className="editor-btn" onClick={resetDraft}>清空</button>
+          </div>
+        </section>
+
+        {/* 隨機產生 */}
+        <section className="editor-section">
+          <h3 className="editor-section-title">隨機產生</h3>
+          <div className="editor-mode-toggle">
+            {(Object.keys(GENERATOR_PRESETS) as GeneratorDifficulty[]).map((difficulty) => (
+              <button
+                key={difficulty}
+                className="editor-btn"
+                onClick={() => updateGeneratorOptions(GENERATOR_PRESETS[difficulty])}
+              >
+                {DIFFICULTY_LABELS[difficulty]}
+              </button>
+            ))}
+          </div>
+          <div className="editor-grid">
+            <label className="editor-field">
+              <span className="editor-field-label">種子</span>
+              <input
+                type="text"
+                value={generatorOptions.seed}
+                onChange={(e) => updateGeneratorOptions({ seed: e.target.value })}
+              />
+            </label>
+            <NumberField
+              label="碎片數量"
+              value={generatorOptions.pieceCount}
+              min={1}
+              onChange={(v) => updateGeneratorOptions({ pieceCount: v })}
+            />
+            <NumberField
+              label="起始距離"
+              value={generatorOptions.startDistance}
+              step={10}
+              min={0}
+              onChange={(v) => updateGeneratorOptions({ startDistance: v })}
+            />
+          </div>
+          <div className="editor-row">
+            <label className="editor-field editor-field-inline">
+              <input
+                type="checkbox"
+                checked={generatorOptions.rotation}
+                onChange={(e) => updateGeneratorOptions({ rotation: e.target.checked })}
+              />
+              <span className="editor-field-label">需要旋轉</span>
+            </label>
+            <label className="editor-field editor-field-inline">
+              <input
+                type="checkbox"
+                checked={generatorOptions.nonUniformScale}
+                onChange={(e) => updateGeneratorOptions({ nonUniformScale: e.target.checked })}
+              />
+              <span className="editor-field-label">需要調整寬高</span>
+            </label>
+          </div>
+          <div className="editor-shape-list">
+            {(Object.keys(SHAPE_LABELS) as ShapeType[]).map((type) => (
+              <button
+                key={type}
+                className={`editor-btn ${generatorOptions.shapeTypes.includes(type) ? 'active' : ''}`}
+                onClick={() => toggleGeneratorShape(type)}
+              >
+                {SHAPE_LABELS[type]}
+              </button>
+            ))}
+          </div>
+          <div className="editor-row">
+            <button
+              className="editor-btn"
+              onClick={() => updateGeneratorOptions({ seed: Math.floor(Math.random() * 1e6) })}
+            >
+              換一個種子
+            </button>
+            <button className="editor-btn primary" onClick={handleGenerate}>產生關卡</button>
+          </div>
+          {generatorError && <p className="editor-message editor-message-error">{generatorError}</p>}
+        </section>
+
+        {/* 關卡設定 */}
+        <section className="editor-section">
+          <h3 className="editor-section-title">關卡設定</h3>
+          <div className="editor-grid">
+            <NumberField label="level_id" value={draft.level_id} min={1} onChange={(v) => updateMeta({ level_id: v })} />
+            <NumberField label="過關門檻" value={draft.win_threshold} min={0} onChange={(v) => updateMeta({ win_threshold: v })} />
+            <NumberField
+              label="畫布寬"
+              value={draft.canvas.width}
+              min={1}
+              onChange={(v) => updateMeta({ canvas: { ...draft.canvas, width: v } })}
+            />
+            <NumberField
+              label="畫布高"
+              value={draft.canvas.height}
+              min={1}
+              onChange={(v) => updateMeta({ canvas: { ...draft.canvas, height: v } })}
+            />
+          </div>
+          <label className="editor-field">
+            <span className="editor-field-label">標題</span>
+            <input type="text" value={draft.title ?? ''} onChange={(e) => updateMeta({ title: e.target.value })} />
+          </label>
+          <label className="editor-field">
+            <span className="editor-field-label">類型</span>
+            <select
+              value={draft.level_type}
+              onChange={(e) => updateMeta({ level_type: e.target.value as LevelConfig['level_type'] })}
+            >
+              <option value="image_match">image_match 圖片對齊</option>
+              <option value="text_hint">text_hint 文字提示</option>
+            </select>
+          </label>
+          <label className="editor-field">
+            <span className="editor-field-label">計分方式</span>
+            <select
+              value={draft.scoring ?? 'transform'}
+              onChange={(e) => updateMeta({ scoring: e.target.value as ScoringMode })}
+            >
+              <option value="transform">transform 位置／旋轉／縮放差距</option>
+              <option value="iou">iou 形狀重疊率</option>
+            </select>
+          </label>
+          <label className="editor-field">
+            <span className="editor-field-label">文字提示</span>
+            <input type="text" value={draft.text_hint} onChange={(e) => updateMeta({ text_hint: e.target.value })} />
+          </label>
+          <div className="editor-row">
+            <label className="editor-field editor-field-inline">
+              <span className="editor-field-label">背景</span>
+              <input
+                type="color"
+                value={draft.canvas.background}
+                onChange={(e) => updateMeta({ canvas: { ...draft.canvas, background: e.target.value } })}
+              />
+            </label>
+            <label className="editor-field editor-field-inline">
+              <input
+                type="checkbox"
+                checked={draft.uniform_scale_only ?? false}
+                onChange={(e) => updateMeta({ uniform_scale_only: e.target.checked })}
+              />
+              <span className="editor-field-label">只允許等比例縮放</span>
+            </label>
+          </div>
+        </section>
+
+        {/* 新增碎片 */}
+        <section className="editor-section">
+          <h3 className="editor-section-title">新增碎片</h3>
+          <div className="editor-shape-list">
+            {(Object.keys(SHAPE_LABELS) as ShapeType[]).map((type) => (
+              <button key={type} className="editor-btn" onClick={() => addPiece(type)}>
+                {SHAPE_LABELS[type]}
+              </button>
+            ))}
+          </div>
+        </section>
+
+        {/* 選取的碎片 */}
+        {selectedPiece && selectedTransform && (
+          <section className="editor-section">
+            <div className="editor-row">
+              <h3 className="editor-section-title">碎片 {selectedPiece.id}</h3>
+              <button className="editor-btn danger" onClick={() => removePiece(selectedPiece.id)}>刪除</button>
+            </div>
+            <div className="editor-grid">
+              <label className="editor-field">
+                <span className="editor-field-label">形狀</span>
+                <select
+                  value={selectedPiece.shape?.type ?? 'rectangle'}
+                  onChange={(e) => updatePieceShape(selectedPiece.id, { type: e.target.value as ShapeType })}
+                >
+                  {(Object.keys(SHAPE_LABELS) as ShapeType[]).map((type) => (
+                    <option key={type} value={type}>{SHAPE_LABELS[type]}</option>
+                  ))}
+                </select>
+              </label>
+              <label className="editor-field">
+                <span className="editor-field-label">顏色</span>
+                <input
+                  type="color"
+                  value={selectedPiece.shape?.color ?? '#e94560'}
+                  onChange={(e) => updatePieceShape(selectedPiece.id, { color: e.target.value })}
+                />
+              </label>
+              <NumberField
+                label="寬"
+                value={selectedPiece.shape?.width ?? DRAFT_PIECE_SIZE}
+                min={1}
+                onChange={(v) => updatePieceShape(selectedPiece.id, { width: v })}
+              />
+              <NumberField
+                label="高"
+                value={selectedPiece.shape?.height ?? DRAFT_PIECE_SIZE}
+                min={1}
+                onChange={(v) => updatePieceShape(selectedPiece.id, { height: v })}
+              />
+            </div>
+            <h4 className="editor-subtitle">{mode === 'target' ? '目標變換' : '起始變換'}</h4>
+            <div className="editor-grid">
+              {TRANSFORM_FIELDS.map(({ key, label, step }) => (
+                <NumberField
+                  key={key}
+                  label={label}
+                  value={selectedTransform[key]}
+                  step={step}
+                  onChange={(v) => updatePieceTransform(selectedPiece.id, { [key]: v })}
+                />
+              ))}
+            </div>
+          </section>
+        )}
+
+        {/* 匯出 */}
+        <section className="editor-section">
+          <h3 className="editor-section-title">匯出</h3>
+          <div className="editor-row">
+            <button className="editor-btn primary" onClick={handleDownload}>下載 {EXPORT_FILE_NAME}</button>
+            <button className="editor-btn" onClick={handleCopy}>複製 JSON</button>
+          </div>
+          {exportMessage && <p className="editor-message">{exportMessage}</p>}
+          {exportIssues.length > 0 && (
+            <ul className="editor-issues">
+              {exportIssues.map((issue, index) => (
+                <li key={index} className="editor-issue">
+                  <code className="editor-issue-path">{issue.path}</code>
+                  <span>{issue.message}</span>
+                </li>
+              ))}
+            </ul>
+          )}
+        </section>
+      </aside>
+
+      {/* 畫布 */}
+      <main className="editor-stage">
+        <div className="editor-toolbar">
+          <div className="editor-mode-toggle">
+            <button
+              className={`editor-btn ${mode === 'target' ? 'active' : ''}`}
+              onClick={() => setMode('target')}
+            >
+              目標位置
+            </button>
+            <button
+              className={`editor-btn ${mode === 'start' ? 'active' : ''}`}
+              onClick={() => setMode('start')}
+            >
+              起始位置
+            </button>
+          </div>
+          <button
+            className="editor-btn"
+            onClick={scatterStartTransforms}
+            disabled={draft.pieces.length === 0}
+          >
+            隨機打散
+          </button>
+          <div className="snap-size-selector">
+            {([1, 5, 10] as SnapSize[]).map((size) => (
+              <button
+                key={size}
+                className={`snap-size-btn ${snapSize === size ? 'active' : ''}`}
+                onClick={() => setSnapSize(size)}
+              >
+                {size}px
+              </button>
+            ))}
+          </div>
+        </div>
+
+        <p className="editor-hint">
+          {mode === 'target'
+            ? '拖曳碎片到完成時的位置；Shift+滾輪旋轉、Ctrl+滾輪縮放'
+            : '把碎片打散成開局位置；虛線框為目標位置'}
+        </p>
+
+        <div className="editor-viewport" style={{ width: draft.canvas.width, height: draft.canvas.height }}>
+          <EditorCanvas canvas={draft.canvas} />
+          <PixelGrid
+            width={draft.canvas.width}
+            height={draft.canvas.height}
+            visible
+            gridSize={getSnapStep(snapSize)}
+            showTargetBoxes={mode === 'start'}
+            pieces={draft.pieces}
+          />
+        </div>
+      </main>
+    </div>
+  );
+}
@@ -0,0 +1,50 @@
+import type { LevelValidationIssue } from '../levels';
+import './LevelErrorScreen.css';
+
+interface LevelErrorScreenProps {
+  issues: LevelValidationIssue[];
+  onContinue?: () => void;  // 略過錯誤關卡，繼續遊玩其他關卡
+}
+
+// 關卡設定錯誤畫面 - 依檔案分組列出錯誤位置與原因
+export function LevelErrorScreen({ issues, onContinue }: LevelErrorScreenProps) {
+  const issuesByFile = new Map<string, LevelValidationIssue[]>();
+  issues.forEach((issue) => {
+    const list = issuesByFile.get(issue.file) ?? [];
+    list.push(issue);
+    issuesByFile.set(issue.file, list);
+  });
+
+  return (
+    <div className="level-error-screen">
+      <div className="level-error-content">
+        <h2 className="level-error-title">關卡設定錯誤</h2>
+        <p className="level-error-summary">
+          {issuesByFile.size} 個關卡檔案共有 {issues.length} 個問題
+        </p>
+
+        <div className="level-error-files">
+          {Array.from(issuesByFile.entries()).map(([file, fileIssues]) => (
+            <div key={file} className="level-error-file">
+              <div className="level-error-file-name">{file}</div>
+              <ul className="level-error-list">
+                {fileIssues.map((issue, index) => (
+                  <li key={index} className="level-error-item">
+                    <code className="level-error-path">{issue.path}</code>
+                    <span className="level-error-message">{issue.message}</span>
+                  </li>
+                ))}
+              </ul>
+            </div>
+          ))}
+        </div>
+
+        {onContinue && (
+          <button className="btn btn-secondary" onClick={onContinue}>
+            略過錯誤關卡並繼續
+          </button>
+        )}
+      </div>
+    </div>
+  );
+}
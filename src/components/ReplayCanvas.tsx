@@ -0,0 +1,57 @@
+import { useEffect, useRef } from 'react';
+import { createViewerEngine } from '../game/GameEngine';
+import type { GameEngine } from '../game/GameEngine';
+import type { LevelConfig, PieceState } from '../types';
+
+interface ReplayCanvasProps {
+  levelConfig: LevelConfig;
+  pieces: PieceState[];   // 目前回放位置的碎片狀態
+}
+
+// 回放畫布 - 以唯讀的 GameEngine 繪製，形狀、顏色、貼圖與遊戲中完全相同
+export function ReplayCanvas({ levelConfig, pieces }: ReplayCanvasProps) {
+  const containerRef = useRef<HTMLDivElement>(null);
+  const engineRef = useRef<GameEngine | null>(null);
+  // 最新的碎片狀態（貼圖載入完成後套用，避免顯示載入期間的舊位置）
+  const piecesRef = useRef(pieces);
+
+  // 初始化唯讀引擎
+  useEffect(() => {
+    if (!containerRef.current) return;
+
+    const engine = createViewerEngine(containerRef.current, levelConfig);
+    engine.setTargets(levelConfig.pieces);
+
+    let cancelled = false;
+    const loadPieces = async () => {
+      await engine.loadPieces(piecesRef.current);
+      if (cancelled) return;
+      piecesRef.current.forEach((piece) => engine.updatePiece(piece.id, piece.current));
+      engineRef.current = engine;
+    };
+
+    loadPieces();
+
+    return () => {
+      cancelled = true;
+      engineRef.current = null;
+      engine.destroy();
+    };
+  }, [levelConfig]);
+
+  // 同步碎片變換
+  useEffect(() => {
+    piecesRef.current = pieces;
+    pieces.forEach((piece) => {
+      engineRef.current?.updatePiece(piece.id, piece.current);
+    });
+  }, [pieces]);
+
+  return (
+    <div
+      ref={containerRef}
+      className="replay-canvas"
+      style={{ width: levelConfig.canvas.width, height: levelConfig.canvas.height }}
+    />
+  );
+}
@@ -0,0 +1,78 @@
+import { useState } from 'react';
+import {
+  EXPORT_FPS_OPTIONS,
+  EXPORT_SCALE_OPTIONS,
+  exportReplayFrames,
+  getReplayExportFileName,
+} from '../game/replayExport';
+import type { ReplayExportFormat } from '../game/replayExport';
+import type { ActionLog, LevelConfig } from '../types';
+import './ReplayExportPanel.css';
+
+interface ReplayExportPanelProps {
+  levelConfig: LevelConfig;
+  actionLogs: ActionLog[];
+}
+
+// 回放匯出 - 在瀏覽器內繪製每一步並編碼成 PNG 精靈圖或 APNG 動畫
+export function ReplayExportPanel({ levelConfig, actionLogs }: ReplayExportPanelProps) {
+  const [format, setFormat] = useState<ReplayExportFormat>('apng');
+  const [fps, setFps] = useState(5);
+  const [scale, setScale] = useState(1);
+  const [progress, setProgress] = useState<{ done: number; total: number } | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleExport = () => {
+    setError(null);
+    setProgress({ done: 0, total: actionLogs.length + 1 });
+    exportReplayFrames(levelConfig, actionLogs, { format, fps, scale }, (done, total) => setProgress({ done, total }))
+      .then((blob) => {
+        const url = URL.createObjectURL(blob);
+        const link = document.createElement('a');
+        link.href = url;
+        link.download = getReplayExportFileName(levelConfig, format);
+        link.click();
+        URL.revokeObjectURL(url);
+      })
+      .catch((e: unknown) => {
+        setError(e instanceof Error ? e.message : '匯出失敗');
+      })
+      .finally(() => {
+        setProgress(null);
+      });
+  };
+
+  const isExporting = progress !== null;
+
+  return (
+    <div className="replay-export">
+      <label>
+        格式
+        <select value={format} onChange={(e) => setFormat(e.target.value as ReplayExportFormat)} disabled={isExporting}>
+          <option value="apng">APNG 動畫</option>
+          <option value="spritesheet">PNG 精靈圖</option>
+        </select>
+      </label>
+      <label>
+        每秒步數
+        <select value={fps} onChange={(e) => setFps(Number(e.target.value))} disabled={isExporting}>
+          {EXPORT_FPS_OPTIONS.map((value) => (
+            <option key={value} value={value}>{value}</option>
+          ))}
+        </select>
+      </label>
+      <label>
+        縮放
+        <select value={scale} onChange={(e) => setScale(Number(e.target.value))} disabled={isExporting}>
+          {EXPORT_SCALE_OPTIONS.map((value) => (
+            <option key={value} value={value}>{value}x</option>
+          ))}
+        </select>
+      </label>
+      <button className="replay-export-btn" onClick={handleExport} disabled={isExporting}>
+        {isExporting ? `匯出中 ${progress.done} / ${progress.total}` : '匯出'}
+      </button>
+      {error && <span className="replay-export-error">{error}</span>}
+    </div>
+  );
+}
@@ -1,229 +1,192 @@
-import { useState, useEffect, useRef, useCallback } from 'react';
-import { useGameStore } from '../stores/gameStore';
-import type { ActionLog, PieceConfig, Transform } from '../types';
+import { useState, useEffect, useRef, useCallback, useMemo } from 'react';
+import { ReplayCanvas } from './ReplayCanvas';
+import { ReplayExportPanel } from './ReplayExportPanel';
+import { ReplayScrubber } from './ReplayScrubber';
+import {
+  buildReplayTimeline,
+  getActionIndexAtTime,
+  getPiecesAtIndex,
+  getReplayFileName,
+  serializeReplay,
+  verifyReplay,
+} from '../levels';
+import type { LevelConfig, ReplayFile } from '../types';
+import { formatDuration, getErrorUnit } from '../utils';
 import './ReplayPlayer.css';
 
 interface ReplayPlayerProps {
+  replay: ReplayFile;
+  levelConfig: LevelConfig;   // 已確認與 replay.level.hash 相同的關卡
   onClose: () => void;
 }
 
-export function ReplayPlayer({ onClose }: ReplayPlayerProps) {
-  const { actionLogs, levelConfig } = useGameStore();
+export function ReplayPlayer({ replay, levelConfig, onClose }: ReplayPlayerProps) {
+  const { actionLogs, result } = replay;
+  // 重新模擬並比對宣稱的結果（其他玩家的檔案可能被修改）
+  const verification = useMemo(() => verifyReplay(replay, levelConfig), [replay, levelConfig]);
+  // 關鍵影格：跳到任何位置都只需補算少量操作
+  const timeline = useMemo(() => buildReplayTimeline(levelConfig, actionLogs), [levelConfig, actionLogs]);
+  const { duration } = timeline;
+
   const [isPlaying, setIsPlaying] = useState(false);
-  const [currentIndex, setCurrentIndex] = useState(-1);
   const [playbackSpeed, setPlaybackSpeed] = useState(3);
-  const [replayPieces, setReplayPieces] = useState<Map<string, Transform>>(new Map());
-  const timeoutRef = useRef<number | null>(null);
-
-  // 初始化碎片位置
-  useEffect(() => {
-    if (levelConfig) {
-      const initialPieces = new Map<string, Transform>();
-      levelConfig.pieces.forEach((p: PieceConfig) => {
-        initialPieces.set(p.id, { ...p.start_transform });
-      });
-      setReplayPieces(initialPieces);
-    }
-  }, [levelConfig]);
-
-  // 應用單個動作
-  const applyAction = useCallback((action: ActionLog) => {
-    setReplayPieces((prev) => {
-      const newPieces = new Map(prev);
-      const piece = newPieces.get(action.pieceId);
-      if (!piece) return prev;
-
-      const updatedPiece = { ...piece };
-
-      switch (action.type) {
-        case 'drag':
-          if (action.payload.toX !== undefined) updatedPiece.x = action.payload.toX;
-          if (action.payload.toY !== undefined) updatedPiece.y = action.payload.toY;
-          break;
-        case 'fine_move':
-          switch (action.payload.direction) {
-            case 'up':
-              updatedPiece.y -= 1;
-              break;
-            case 'down':
-              updatedPiece.y += 1;
-              break;
-            case 'left':
-              updatedPiece.x -= 1;
-              break;
-            case 'right':
-              updatedPiece.x += 1;
-              break;
-          }
-          break;
-        case 'rotate':
-          if (action.payload.toRotation !== undefined) {
-            updatedPiece.rotation = action.payload.toRotation;
-          }
-          break;
-        case 'scale':
-          if (action.payload.toScaleX !== undefined) {
-            updatedPiece.scaleX = action.payload.toScaleX;
-          }
-          if (action.payload.toScaleY !== undefined) {
-            updatedPiece.scaleY = action.payload.toScaleY;
-          }
-          break;
-      }
+  // 播放位置：時間（毫秒）與最後一個已套用的操作
+  const [position, setPosition] = useState({ time: 0, index: -1 });
+  const [showExport, setShowExport] = useState(false);
+  // 播放起點：開始播放或改變速度時記錄，每一幀依經過的實際時間推算回放時間
+  const anchorRef = useRef({ wallTime: 0, time: 0 });
+
+  const replayPieces = useMemo(() => getPiecesAtIndex(timeline, position.index), [timeline, position.index]);
+
+  // 依時間跳轉
+  const seekToTime = useCallback(
+    (time: number) => {
+      const clamped = Math.max(0, Math.min(duration, time));
+      setPosition({ time: clamped, index: getActionIndexAtTime(timeline, clamped) });
+      anchorRef.current = { wallTime: performance.now(), time: clamped };
+    },
+    [timeline, duration]
+  );
 
-      newPieces.set(action.pieceId, updatedPiece);
-      return newPieces;
-    });
-  }, []);
+  // 依操作跳轉（同一時間點的多個操作也能逐一步進）
+  const seekToIndex = (index: number) => {
+    const time = index >= 0 ? actionLogs[index].timestamp : 0;
+    setPosition({ time, index });
+    anchorRef.current = { wallTime: performance.now(), time };
+  };
 
-  // 播放邏輯
+  // 播放：每一幀推進時間，到結尾時停止
   useEffect(() => {
-    if (!isPlaying || currentIndex >= actionLogs.length - 1) {
-      if (currentIndex >= actionLogs.length - 1) {
+    if (!isPlaying) return;
+
+    let frame = requestAnimationFrame(function tick(now) {
+      const { wallTime, time: startTime } = anchorRef.current;
+      const time = Math.min(duration, startTime + (now - wallTime) * playbackSpeed);
+      setPosition({ time, index: getActionIndexAtTime(timeline, time) });
+      if (time >= duration) {
         setIsPlaying(false);
+        return;
       }
-      return;
-    }
-
-    const currentAction = actionLogs[currentIndex + 1];
-    const prevAction = actionLogs[currentIndex];
-
-    // 計算延遲（基於 timestamp 差異）
-    let delay = 100; // 預設最小延遲
-    if (currentIndex >= 0 && prevAction) {
-      delay = Math.max(50, (currentAction.timestamp - prevAction.timestamp) / playbackSpeed);
-    }
-
-    timeoutRef.current = window.setTimeout(() => {
-      setCurrentIndex((prev) => prev + 1);
-      applyAction(currentAction);
-    }, delay);
+      frame = requestAnimationFrame(tick);
+    });
 
-    return () => {
-      if (timeoutRef.current) {
-        clearTimeout(timeoutRef.current);
-      }
-    };
-  }, [isPlaying, currentIndex, actionLogs, playbackSpeed, applyAction]);
+    return () => cancelAnimationFrame(frame);
+  }, [isPlaying, playbackSpeed, timeline, duration]);
 
-  // 開始/暫停播放
+  // 開始/暫停播放（在結尾時從頭開始）
   const togglePlay = () => {
-    if (currentIndex >= actionLogs.length - 1) {
-      // 重新開始
-      resetReplay();
-      setIsPlaying(true);
-    } else {
-      setIsPlaying(!isPlaying);
+    if (isPlaying) {
+      setIsPlaying(false);
+      return;
     }
+    seekToTime(position.time >= duration ? 0 : position.time);
+    setIsPlaying(true);
   };
 
   // 重置回放
   const resetReplay = () => {
     setIsPlaying(false);
-    setCurrentIndex(-1);
-    if (levelConfig) {
-      const initialPieces = new Map<string, Transform>();
-      levelConfig.pieces.forEach((p: PieceConfig) => {
-        initialPieces.set(p.id, { ...p.start_transform });
-      });
-      setReplayPieces(initialPieces);
-    }
+    seekToIndex(-1);
   };
 
   // 步進
   const stepForward = () => {
-    if (currentIndex < actionLogs.length - 1) {
-      const nextIndex = currentIndex + 1;
-      setCurrentIndex(nextIndex);
-      applyAction(actionLogs[nextIndex]);
+    if (position.index < actionLogs.length - 1) {
+      setIsPlaying(false);
+      seekToIndex(position.index + 1);
     }
   };
 
   const stepBackward = () => {
-    if (currentIndex >= 0) {
-      // 重置並重放到前一個位置
-      const targetIndex = currentIndex - 1;
-      resetReplay();
-
-      // 重放到目標位置
-      for (let i = 0; i <= targetIndex; i++) {
-        applyAction(actionLogs[i]);
-      }
-      setCurrentIndex(targetIndex);
+    if (position.index >= 0) {
+      setIsPlaying(false);
+      seekToIndex(position.index - 1);
     }
   };
 
-  if (!levelConfig) return null;
+  // 拖曳時間軸時暫停播放
+  const handleScrub = (time: number) => {
+    setIsPlaying(false);
+    seekToTime(time);
+  };
 
-  const progress = actionLogs.length > 0
-    ? ((currentIndex + 1) / actionLogs.length) * 100
-    : 0;
+  // 播放中改變速度：以目前位置重新計算起點
+  const handleSpeedChange = (speed: number) => {
+    anchorRef.current = { wallTime: performance.now(), time: position.time };
+    setPlaybackSpeed(speed);
+  };
+
+  // 下載回放檔案
+  const handleDownload = () => {
+    const blob = new Blob([serializeReplay(replay)], { type: 'application/json' });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = getReplayFileName(replay);
+    link.click();
+    URL.revokeObjectURL(url);
+  };
 
   return (
     <div className="replay-overlay">
       <div className="replay-container">
         <div className="replay-header">
           <h2>回放</h2>
-          <button className="close-btn" onClick={onClose}>✕</button>
+          <div className="replay-header-actions">
+            <button className="replay-download-btn" onClick={handleDownload} title="下載回放檔案">
+              下載
+            </button>
+            <button
+              className={`replay-download-btn ${showExport ? 'active' : ''}`}
+              onClick={() => setShowExport(!showExport)}
+              title="匯出為圖片"
+            >
+              匯出圖片
+            </button>
+            <button className="close-btn" onClick={onClose}>✕</button>
+          </div>
         </div>
 
-        {/* 回放畫布 */}
-        <div
-          className="replay-canvas"
-          style={{
-            width: levelConfig.canvas.width,
-            height: levelConfig.canvas.height,
-            background: levelConfig.canvas.background,
-          }}
-        >
-          {Array.from(replayPieces.entries()).map(([id, transform]) => (
-            <div
-              key={id}
-              className="replay-piece"
-              style={{
-                left: transform.x,
-                top: transform.y,
-                transform: `translate(-50%, -50%) rotate(${transform.rotation}deg) scale(${transform.scaleX}, ${transform.scaleY})`,
-              }}
-            >
-              {id}
-            </div>
-          ))}
-
-          {/* 目標位置指示 */}
-          {levelConfig.pieces.map((p: PieceConfig) => (
-            <div
-              key={`target-${p.id}`}
-              className="replay-target"
-              style={{
-                left: p.target_transform.x,
-                top: p.target_transform.y,
-                transform: `translate(-50%, -50%) rotate(${p.target_transform.rotation}deg) scale(${p.target_transform.scaleX}, ${p.target_transform.scaleY})`,
-              }}
-            />
-          ))}
+        {/* 回放資訊 */}
+        <div className="replay-summary">
+          <span>Level {levelConfig.level_id}{levelConfig.title && `・${levelConfig.title}`}</span>
+          <span>
+            {result.rating ?? '未過關'}・誤差 {result.totalError.toFixed(2)}{getErrorUnit(levelConfig.scoring)}・
+            {result.actionCount} 步・{formatDuration(result.durationMs)}・Snap {replay.snapSize}px
+          </span>
+          <span
+            className={`replay-verification ${verification.ok ? 'verified' : 'mismatch'}`}
+            title={verification.issues.map((issue) => `${issue.path}：${issue.message}`).join('\n')}
+          >
+            {verification.ok ? '✓ 結果已驗證' : `⚠ 結果不符（${verification.issues.length} 項）`}
+          </span>
         </div>
 
+        {showExport && <ReplayExportPanel levelConfig={levelConfig} actionLogs={actionLogs} />}
+
+        {/* 回放畫布 */}
+        <ReplayCanvas levelConfig={levelConfig} pieces={replayPieces} />
+
         {/* 控制列 */}
         <div className="replay-controls">
-          <div className="replay-progress">
-            <div
-              className="replay-progress-bar"
-              style={{ width: `${progress}%` }}
-            />
-          </div>
+          <ReplayScrubber
+            actionLogs={actionLogs}
+            duration={duration}
+            currentTime={position.time}
+            onSeek={handleScrub}
+          />
 
           <div className="replay-buttons">
             <button onClick={resetReplay} title="重置">
               ⏮
             </button>
-            <button onClick={stepBackward} title="上一步" disabled={currentIndex < 0}>
+            <button onClick={stepBackward} title="上一步" disabled={position.index < 0}>
               ⏪
             </button>
             <button onClick={togglePlay} className="play-btn">
               {isPlaying ? '⏸' : '▶'}
             </button>
-            <button onClick={stepForward} title="下一步" disabled={currentIndex >= actionLogs.length - 1}>
+            <button onClick={stepForward} title="下一步" disabled={position.index >= actionLogs.length - 1}>
               ⏩
             </button>
           </div>
@@ -235,12 +198,13 @@ export function ReplayPlayer({ onClose }: ReplayPlayerProps) {
               min="1"
               max="10"
               value={playbackSpeed}
-              onChange={(e) => setPlaybackSpeed(Number(e.target.value))}
+              onChange={(e) => handleSpeedChange(Number(e.target.value))}
             />
           </div>
 
           <div className="replay-info">
-            <span>動作: {currentIndex + 1} / {actionLogs.length}</span>
+            <span>動作: {position.index + 1} / {actionLogs.length}</span>
+            <span>{formatDuration(position.time)} / {formatDuration(duration)}</span>
           </div>
         </div>
       </div>
@@ -0,0 +1,83 @@
+import { useRef } from 'react';
+import type { KeyboardEvent, PointerEvent } from 'react';
+import type { ActionLog } from '../types';
+import './ReplayScrubber.css';
+
+interface ReplayScrubberProps {
+  actionLogs: ActionLog[];
+  duration: number;      // 毫秒
+  currentTime: number;   // 毫秒
+  onSeek: (time: number) => void;
+}
+
+// 鍵盤左右鍵每次移動的比例
+const KEYBOARD_STEP = 0.02;
+
+// 回放時間軸 - 點擊或拖曳跳到任一時間，每個操作以對應類型顏色的刻度標示
+export function ReplayScrubber({ actionLogs, duration, currentTime, onSeek }: ReplayScrubberProps) {
+  const trackRef = useRef<HTMLDivElement>(null);
+  const toPercent = (time: number) => (duration > 0 ? (time / duration) * 100 : 0);
+
+  // 指標位置換算成時間
+  const seekToPointer = (clientX: number) => {
+    const track = trackRef.current;
+    if (!track) return;
+    const rect = track.getBoundingClientRect();
+    const ratio = Math.max(0, Math.min(1, (clientX - rect.left) / rect.width));
+    onSeek(ratio * duration);
+  };
+
+  const handlePointerDown = (e: PointerEvent<HTMLDivElement>) => {
+    e.currentTarget.setPointerCapture(e.pointerId);
+    seekToPointer(e.clientX);
+  };
+
+  const handlePointerMove = (e: PointerEvent<HTMLDivElement>) => {
+    if (e.currentTarget.hasPointerCapture(e.pointerId)) seekToPointer(e.clientX);
+  };
+
+  const handleKeyDown = (e: KeyboardEvent<HTMLDivElement>) => {
+    const step = duration * KEYBOARD_STEP;
+    const targets: Record<string, number> = {
+      ArrowLeft: currentTime - step,
+      ArrowRight: currentTime + step,
+      Home: 0,
+      End: duration,
+    };
+    if (!(e.key in targets)) return;
+    e.preventDefault();
+    onSeek(Math.max(0, Math.min(duration, targets[e.key])));
+  };
+
+  return (
+    <div
+      ref={trackRef}
+      className="replay-scrubber"
+      role="slider"
+      tabIndex={0}
+      aria-label="回放位置"
+      aria-valuemin={0}
+      aria-valuemax={duration}
+      aria-valuenow={currentTime}
+      onPointerDown={handlePointerDown}
+      onPointerMove={handlePointerMove}
+      onKeyDown={handleKeyDown}
+    >
+      <div className="replay-scrubber-track">
+        <div className="replay-scrubber-fill" style={{ width: `${toPercent(currentTime)}%` }} />
+      </div>
+
+      {/* 操作刻度 */}
+      {actionLogs.map((log, index) => (
+        <span
+          key={index}
+          className={`replay-scrubber-marker ${log.type} ${log.timestamp <= currentTime ? 'done' : ''}`}
+          style={{ left: `${toPercent(log.timestamp)}%` }}
+          title={`#${index + 1} ${log.pieceId} ${log.type}`}
+        />
+      ))}
+
+      <div className="replay-scrubber-thumb" style={{ left: `${toPercent(currentTime)}%` }} />
+    </div>
+  );
+}
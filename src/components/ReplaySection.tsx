@@ -0,0 +1,65 @@
+import { useState } from 'react';
+import type { ChangeEvent } from 'react';
+import { levelRegistry, parseReplayJson, resolveReplayLevel } from '../levels';
+import type { LevelValidationIssue } from '../levels';
+import type { LevelConfig, ReplayFile } from '../types';
+import './ReplaySection.css';
+
+interface ReplaySectionProps {
+  onOpen: (replay: ReplayFile, config: LevelConfig) => void;
+}
+
+// 關卡選擇面板中的回放區塊 - 載入回放檔案（自己或其他玩家下載的）並播放
+export function ReplaySection({ onOpen }: ReplaySectionProps) {
+  const [issues, setIssues] = useState<LevelValidationIssue[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+
+  const handleFileChange = (e: ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';  // 允許重複選擇同一個檔案
+    if (!file) return;
+
+    setIsLoading(true);
+    file
+      .text()
+      .then((text) => {
+        const parsed = parseReplayJson(text, file.name);
+        if (!parsed.ok) return parsed.issues;
+        return resolveReplayLevel(parsed.replay, levelRegistry, file.name).then((result) => {
+          if (!result.ok) return result.issues;
+          onOpen(parsed.replay, result.config);
+          return [];
+        });
+      }, () => [{ file: file.name, path: '$', message: '無法讀取檔案' }])
+      // 載入關卡失敗（例如下載中斷）時同樣回報，不讓按鈕停在載入中
+      .catch((error: unknown) => {
+        const reason = error instanceof Error ? error.message : String(error);
+        return [{ file: file.name, path: 'level', message: `無法載入回放的關卡：${reason}` }];
+      })
+      .then((found) => {
+        setIssues(found);
+        setIsLoading(false);
+      });
+  };
+
+  return (
+    <div className="replay-section">
+      <div className="level-section-title">回放</div>
+      <label className={`replay-section-btn ${isLoading ? 'loading' : ''}`}>
+        {isLoading ? '載入中...' : '載入回放檔案'}
+        <input type="file" accept=".json,application/json" onChange={handleFileChange} disabled={isLoading} hidden />
+      </label>
+
+      {issues.length > 0 && (
+        <ul className="replay-section-issues">
+          {issues.map((issue, index) => (
+            <li key={index} className="replay-section-issue">
+              <code className="replay-section-issue-path">{issue.path}</code>
+              <span>{issue.message}</span>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
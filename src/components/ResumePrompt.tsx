@@ -0,0 +1,37 @@
+import type { ResumeSnapshot } from '../types';
+import { formatDuration } from '../utils';
+import './ResumePrompt.css';
+
+interface ResumePromptProps {
+  snapshot: ResumeSnapshot;
+  onContinue: () => void;
+  onDiscard: () => void;
+}
+
+// 繼續上次進度提示 - 重新整理後偵測到未完成的關卡時顯示
+export function ResumePrompt({ snapshot, onContinue, onDiscard }: ResumePromptProps) {
+  return (
+    <div className="resume-prompt">
+      <div className="resume-content">
+        <h2 className="resume-title">繼續上次進度？</h2>
+        <p className="resume-level">
+          Level {snapshot.levelId}
+        </p>
+
+        <div className="resume-stats">
+          <span>操作次數: {snapshot.actionLogs.length}</span>
+          <span>已進行: {formatDuration(snapshot.savedAt - snapshot.gameStartTime)}</span>
+        </div>
+
+        <div className="resume-buttons">
+          <button className="btn btn-primary" onClick={onContinue}>
+            從中斷處繼續
+          </button>
+          <button className="btn btn-secondary" onClick={onDiscard}>
+            重新開始
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
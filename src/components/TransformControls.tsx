@@ -1,14 +1,10 @@
 import { useCallback, useRef, useState } from 'react';
 import { useGameStore } from '../stores/gameStore';
+import { buildControlActionLog, getControlTransform, getSnapStep } from '../utils';
+import { evaluatePieces } from '../simulation';
+import type { ControlAction, Transform } from '../types';
 import './TransformControls.css';
 
-type ControlAction =
-  | 'rotate-left' | 'rotate-right'
-  | 'scale-up' | 'scale-down'
-  | 'width-up' | 'width-down'
-  | 'height-up' | 'height-down'
-  | 'move-up' | 'move-down' | 'move-left' | 'move-right';
-
 export function TransformControls() {
   const {
     selectedPieceId,
@@ -17,18 +13,11 @@ export function TransformControls() {
     checkWinCondition,
     gameState,
     levelConfig,
-    addActionLog,
     snapSize,
   } = useGameStore();
 
   // 記錄操作開始時的值
-  const startValuesRef = useRef<{
-    x: number;
-    y: number;
-    rotation: number;
-    scaleX: number;
-    scaleY: number;
-  } | null>(null);
+  const startValuesRef = useRef<Transform | null>(null);
 
   // 是否只允許等比例縮放
   const uniformScaleOnly = levelConfig?.uniform_scale_only ?? false;
@@ -36,75 +25,44 @@ export function TransformControls() {
   const [activeControl, setActiveControl] = useState<ControlAction | null>(null);
   const controlIntervalRef = useRef<number | null>(null);
 
+  // 寫入按住期間的操作記錄（放開時，或長按途中達到過關條件時）
+  const recordControl = useCallback((action: ControlAction) => {
+    const start = startValuesRef.current;
+    startValuesRef.current = null;
+
+    const { selectedPieceId: pieceId, pieces: currentPieces, addActionLog } = useGameStore.getState();
+    const piece = currentPieces.find((p) => p.id === pieceId);
+    if (!pieceId || !start || !piece) return;
+
+    const log = buildControlActionLog(pieceId, action, start, piece.current);
+    if (log) {
+      addActionLog(log);
+    }
+  }, []);
+
   const handleControlAction = useCallback(
     (action: ControlAction) => {
       if (!selectedPieceId) return;
+      // 長按途中過關就停止，最終狀態與過關時相同（回放驗證依此重現結果）
+      if (useGameStore.getState().gameState !== 'PLAYING') return;
 
       const piece = pieces.find((p) => p.id === selectedPieceId);
       if (!piece) return;
 
-      // 等比縮放：固定 0.1 步長
-      const uniformScaleStep = 0.1;
-
-      // 單獨調整寬高：根據基礎尺寸計算步長，確保每邊增加 5px（一格）
-      // 100px → 10/100 = 0.1 → 每邊 +5px
-      // 50px → 10/50 = 0.2 → 每邊 +5px
-      const baseWidth = piece.shape?.width ?? 100;
-      const baseHeight = piece.shape?.height ?? 100;
-      const widthScaleStep = 10 / baseWidth;
-      const heightScaleStep = 10 / baseHeight;
-
       // 位置微調步長（根據 snapSize）
       // 1px 模式 → 實際 5px, 5px 模式 → 實際 10px, 10px 模式 → 實際 20px
-      const moveStep = snapSize === 1 ? 5 : snapSize === 5 ? 10 : 20;
+      const moveStep = getSnapStep(snapSize);
+
+      updatePieceTransform(selectedPieceId, getControlTransform(piece, action, moveStep));
 
-      switch (action) {
-        case 'rotate-left':
-          updatePieceTransform(selectedPieceId, { rotation: piece.current.rotation - 5 });
-          break;
-        case 'rotate-right':
-          updatePieceTransform(selectedPieceId, { rotation: piece.current.rotation + 5 });
-          break;
-        case 'scale-up':
-          updatePieceTransform(selectedPieceId, {
-            scaleX: piece.current.scaleX + uniformScaleStep,
-            scaleY: piece.current.scaleY + uniformScaleStep
-          });
-          break;
-        case 'scale-down':
-          updatePieceTransform(selectedPieceId, {
-            scaleX: piece.current.scaleX - uniformScaleStep,
-            scaleY: piece.current.scaleY - uniformScaleStep
-          });
-          break;
-        case 'width-up':
-          updatePieceTransform(selectedPieceId, { scaleX: piece.current.scaleX + widthScaleStep });
-          break;
-        case 'width-down':
-          updatePieceTransform(selectedPieceId, { scaleX: piece.current.scaleX - widthScaleStep });
-          break;
-        case 'height-up':
-          updatePieceTransform(selectedPieceId, { scaleY: piece.current.scaleY + heightScaleStep });
-          break;
-        case 'height-down':
-          updatePieceTransform(selectedPieceId, { scaleY: piece.current.scaleY - heightScaleStep });
-          break;
-        case 'move-up':
-          updatePieceTransform(selectedPieceId, { y: piece.current.y - moveStep });
-          break;
-        case 'move-down':
-          updatePieceTransform(selectedPieceId, { y: piece.current.y + moveStep });
-          break;
-        case 'move-left':
-          updatePieceTransform(selectedPieceId, { x: piece.current.x - moveStep });
-          break;
-        case 'move-right':
-          updatePieceTransform(selectedPieceId, { x: piece.current.x + moveStep });
-          break;
+      // 達到過關條件時先寫入這段操作再判定勝利，過關紀錄（幽靈、最少操作）才包含最後一個操作
+      const state = useGameStore.getState();
+      if (state.levelConfig && evaluatePieces(state.pieces, state.levelConfig).rating) {
+        recordControl(action);
+        checkWinCondition();
       }
-      checkWinCondition();
     },
-    [selectedPieceId, pieces, updatePieceTransform, checkWinCondition, snapSize]
+    [selectedPieceId, pieces, updatePieceTransform, checkWinCondition, recordControl, snapSize]
   );
 
   const handleControlDown = useCallback(
@@ -116,13 +74,7 @@ export function TransformControls() {
       if (selectedPieceId) {
         const piece = pieces.find((p) => p.id === selectedPieceId);
         if (piece) {
-          startValuesRef.current = {
-            x: piece.current.x,
-            y: piece.current.y,
-            rotation: piece.current.rotation,
-            scaleX: piece.current.scaleX,
-            scaleY: piece.current.scaleY,
-          };
+          startValuesRef.current = { ...piece.current };
         }
       }
 
@@ -138,59 +90,9 @@ export function TransformControls() {
   );
 
   const handleControlUp = useCallback(() => {
-    // 記錄操作到 actionLogs
-    if (selectedPieceId && startValuesRef.current && activeControl) {
-      const piece = pieces.find((p) => p.id === selectedPieceId);
-      if (piece) {
-        const isRotateAction = activeControl.startsWith('rotate');
-        const isScaleAction = activeControl.includes('scale') ||
-                              activeControl.includes('width') ||
-                              activeControl.includes('height');
-        const isMoveAction = activeControl.startsWith('move');
-
-        if (isRotateAction && startValuesRef.current.rotation !== piece.current.rotation) {
-          addActionLog({
-            pieceId: selectedPieceId,
-            type: 'rotate',
-            payload: {
-              fromRotation: startValuesRef.current.rotation,
-              toRotation: piece.current.rotation,
-            },
-          });
-        }
-
-        if (isScaleAction && (
-          startValuesRef.current.scaleX !== piece.current.scaleX ||
-          startValuesRef.current.scaleY !== piece.current.scaleY
-        )) {
-          addActionLog({
-            pieceId: selectedPieceId,
-            type: 'scale',
-            payload: {
-              fromScaleX: startValuesRef.current.scaleX,
-              fromScaleY: startValuesRef.current.scaleY,
-              toScaleX: piece.current.scaleX,
-              toScaleY: piece.current.scaleY,
-            },
-          });
-        }
-
-        if (isMoveAction && (
-          startValuesRef.current.x !== piece.current.x ||
-          startValuesRef.current.y !== piece.current.y
-        )) {
-          addActionLog({
-            pieceId: selectedPieceId,
-            type: 'fine_move',
-            payload: {
-              fromX: startValuesRef.current.x,
-              fromY: startValuesRef.current.y,
-              toX: piece.current.x,
-              toY: piece.current.y,
-            },
-          });
-        }
-      }
+    // 記錄操作到 actionLogs（長按途中過關時已寫入）
+    if (activeControl) {
+      recordControl(activeControl);
     }
 
     startValuesRef.current = null;
@@ -199,7 +101,7 @@ export function TransformControls() {
       clearInterval(controlIntervalRef.current);
       controlIntervalRef.current = null;
     }
-  }, [selectedPieceId, pieces, activeControl, addActionLog]);
+  }, [activeControl, recordControl]);
 
   // 只在選取方塊且不在勝利狀態時顯示
   if (!selectedPieceId || gameState === 'WIN') {
@@ -1,4 +1,7 @@
+import { AccuracyPanel } from './AccuracyPanel';
 import { useGameStore } from '../stores/gameStore';
+import { getLevelPar } from '../levels';
+import { calculateEfficiency, formatDuration, getErrorReport, getErrorUnit, getRatingBands } from '../utils';
 import './WinScreen.css';
 
 interface WinScreenProps {
@@ -8,12 +11,31 @@ interface WinScreenProps {
 }
 
 export function WinScreen({ onReplay, onNextLevel, onWatchReplay }: WinScreenProps) {
-  const { gameState, winRating, totalError, resetLevel, actionLogs } = useGameStore();
+  const {
+    gameState,
+    winRating,
+    totalError,
+    resetLevel,
+    actionLogs,
+    levelConfig,
+    dailyDate,
+    isScoredDaily,
+    pieces,
+  } = useGameStore();
 
-  if (gameState !== 'WIN') {
+  if (gameState !== 'WIN' || !levelConfig) {
     return null;
   }
 
+  // 本關評級區間
+  const bands = getRatingBands(levelConfig);
+  const unit = getErrorUnit(levelConfig.scoring);
+  const bandRows = [
+    { rating: 'Perfect', limit: bands.perfect },
+    { rating: 'Great', limit: bands.great },
+    { rating: 'Good', limit: bands.good },
+  ] as const;
+
   const getRatingStyle = () => {
     switch (winRating) {
       case 'Perfect':
@@ -27,6 +49,18 @@ export function WinScreen({ onReplay, onNextLevel, onWatchReplay }: WinScreenPro
     }
   };
 
+  // 與 par 比較的效率（過關時間以最後一次操作為準）
+  const par = getLevelPar(levelConfig);
+  const efficiency = par.actions !== null && par.seconds !== null
+    ? calculateEfficiency({
+        actionLogs,
+        elapsedMs: actionLogs.at(-1)?.timestamp ?? 0,
+        parActions: par.actions,
+        parSeconds: par.seconds,
+        piecePars: par.pieces,
+      })
+    : null;
+
   const handleReplay = () => {
     resetLevel();
     onReplay();
@@ -36,7 +70,7 @@ export function WinScreen({ onReplay, onNextLevel, onWatchReplay }: WinScreenPro
     <div className="win-screen">
       <div className={`win-content ${getRatingStyle()}`}>
         <h1 className="win-rating">{winRating}</h1>
-        <p className="win-error">誤差: {totalError.toFixed(2)}px</p>
+        <p className="win-error">誤差: {totalError.toFixed(2)}{unit}</p>
 
         <div className="win-stars">
           {winRating === 'Perfect' && '★★★'}
@@ -44,6 +78,53 @@ export function WinScreen({ onReplay, onNextLevel, onWatchReplay }: WinScreenPro
           {winRating === 'Good' && '★☆☆'}
         </div>
 
+        <div className="win-bands">
+          {bandRows.map(({ rating, limit }) => (
+            <span
+              key={rating}
+              className={`win-band ${winRating === rating ? 'active' : ''}`}
+            >
+              {rating} &lt; {Number(limit.toFixed(2))}{unit}
+            </span>
+          ))}
+        </div>
+
+        {/* 各碎片誤差明細 */}
+        <AccuracyPanel report={getErrorReport(pieces, levelConfig.scoring)} className="win-accuracy" />
+
+        {efficiency && (
+          <div className="win-efficiency">
+            <div className="win-efficiency-score">
+              效率 <strong>{efficiency.score}%</strong>
+            </div>
+            <div className="win-efficiency-rows">
+              <span>
+                步數 {efficiency.actions} / {efficiency.parActions}（{efficiency.actionScore}%）
+              </span>
+              <span>
+                時間 {formatDuration(efficiency.seconds * 1000)} / {formatDuration(efficiency.parSeconds * 1000)}
+                （{efficiency.timeScore}%）
+              </span>
+            </div>
+            <ul className="win-efficiency-pieces">
+              {efficiency.pieces.map((piece) => (
+                <li key={piece.pieceId} className={piece.score !== null && piece.score < 100 ? 'over-par' : ''}>
+                  <span>{piece.pieceId}</span>
+                  <span>
+                    {piece.actions} / {piece.par ?? '—'}
+                  </span>
+                </li>
+              ))}
+            </ul>
+          </div>
+        )}
+
+        {dailyDate && (
+          <p className={`win-daily ${isScoredDaily ? 'scored' : ''}`}>
+            {isScoredDaily ? `每日挑戰 ${dailyDate} 成績已記錄` : '練習模式：今日的計分機會已使用，本次不計分'}
+          </p>
+        )}
+
         <div className="win-stats">
           <span>操作次數: {actionLogs.length}</span>
         </div>
@@ -60,7 +141,7 @@ export function WinScreen({ onReplay, onNextLevel, onWatchReplay }: WinScreenPro
             )}
           </div>
           <button className="btn btn-primary" onClick={onNextLevel}>
-            下一關
+            {dailyDate ? '返回關卡' : '下一關'}
           </button>
         </div>
       </div>
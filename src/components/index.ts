@@ -5,3 +5,8 @@ export { WinScreen } from './WinScreen';
 export { ReplayPlayer } from './ReplayPlayer';
 export { PixelGrid } from './PixelGrid';
 export { TransformControls } from './TransformControls';
+export { HintPanel } from './HintPanel';
+export { ResumePrompt } from './ResumePrompt';
+export { LevelErrorScreen } from './LevelErrorScreen';
+export { LevelEditor } from './LevelEditor';
+export { EditorCanvas } from './EditorCanvas';
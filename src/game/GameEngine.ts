@@ -1,6 +1,8 @@
 import * as PIXI from 'pixi.js';
-import type { LevelConfig, PieceState, ShapeType } from '../types';
-import { degToRad, radToDeg, clampScale, normalizeAngle } from '../utils';
+import type { LevelConfig, PieceConfig, PieceState, ShapeType, Transform } from '../types';
+import { degToRad, radToDeg, getShapeOutline } from '../utils';
+import type { RgbaImage } from '../utils';
+import { getStickySnapPosition, getWheelTransform } from '../simulation';
 
 export interface GameEngineOptions {
   container: HTMLElement;
@@ -11,6 +13,8 @@ export interface GameEngineOptions {
   onRotate: (pieceId: string, rotation: number) => void;
   onScale: (pieceId: string, scaleX: number, scaleY: number) => void;
   getSnapState: () => { enabled: boolean; size: number };
+  readOnly?: boolean;   // 唯讀（回放）：不處理任何輸入，只顯示碎片
+  resolution?: number;  // 繪製解析度，預設為裝置像素比（匯出影格時指定縮放倍率）
 }
 
 export class GameEngine {
@@ -20,6 +24,9 @@ export class GameEngine {
   private pieceSprites: Map<string, PIXI.Sprite> = new Map();
   private pieceGraphics: Map<string, PIXI.Graphics> = new Map();
   private selectedPieceId: string | null = null;
+  // 誤差最大的碎片（準確度面板開啟時標示）
+  private highlightedPieceId: string | null = null;
+  private highlightGraphics: PIXI.Graphics | null = null;
   private isDragging = false;
   private draggingPieceId: string | null = null; // 正在拖曳的方塊 ID
   private dragOffset = { x: 0, y: 0 };
@@ -37,6 +44,15 @@ export class GameEngine {
   // 選取框顯示狀態
   private hideSelectionBox = false;
 
+  private isDestroyed = false;
+  private readOnly: boolean;
+  // 目標外框（繪製在所有碎片之下）
+  private targetGraphics: PIXI.Graphics | null = null;
+  // 幽靈：半透明、不可互動的碎片，繪製在目標外框之上、碎片之下
+  private ghostLayer: PIXI.Container | null = null;
+  private ghostSprites: Map<string, PIXI.Sprite> = new Map();
+  private ghostVersion = 0;  // 每次設定幽靈遞增，捨棄較早一次尚未載入完成的結果
+
   // 回調函數
   private onPieceSelect: (id: string | null) => void;
   private onPieceTransformEnd: (id: string, x: number, y: number) => void;
@@ -54,17 +70,19 @@ export class GameEngine {
     this.onRotate = options.onRotate;
     this.onScale = options.onScale;
     this.getSnapState = options.getSnapState;
+    this.readOnly = options.readOnly ?? false;
 
     // 建立 Pixi 應用
     this.app = new PIXI.Application({
       width: options.levelConfig.canvas.width,
       height: options.levelConfig.canvas.height,
       backgroundColor: options.levelConfig.canvas.background,
-      resolution: window.devicePixelRatio || 1,
+      resolution: options.resolution ?? (window.devicePixelRatio || 1),
       autoDensity: true,
     });
 
     this.container.appendChild(this.app.view as HTMLCanvasElement);
+    if (this.readOnly) return;
     this.setupInteraction();
     this.setupWheelHandler();
     this.setupTouchGestures();
@@ -101,23 +119,24 @@ export class GameEngine {
       const sprite = this.pieceSprites.get(this.selectedPieceId);
       if (!sprite) return;
 
-      // 固定 0.1 縮放步長（確保像素對齊）
-      const scaleStep = 0.1;
       const delta = e.deltaY > 0 ? -1 : 1;
+      const current = {
+        rotation: radToDeg(sprite.rotation),
+        scaleX: sprite.scale.x,
+        scaleY: sprite.scale.y,
+      };
 
       if (e.shiftKey) {
         // Shift + 滾輪：旋轉 ±5°
-        const currentRotation = radToDeg(sprite.rotation);
-        const newRotation = normalizeAngle(currentRotation + delta * 5);
-        sprite.rotation = degToRad(newRotation);
-        this.onRotate(this.selectedPieceId, newRotation);
+        const { rotation = current.rotation } = getWheelTransform(current, delta, 'rotate');
+        sprite.rotation = degToRad(rotation);
+        this.onRotate(this.selectedPieceId, rotation);
         this.updateSelectionBox(this.selectedPieceId);
       } else if (e.ctrlKey || e.metaKey) {
-        // Ctrl/Cmd + 滾輪：等比例縮放（像素對齊）
-        const newScaleX = clampScale(sprite.scale.x + delta * scaleStep);
-        const newScaleY = clampScale(sprite.scale.y + delta * scaleStep);
-        sprite.scale.set(newScaleX, newScaleY);
-        this.onScale(this.selectedPieceId, newScaleX, newScaleY);
+        // Ctrl/Cmd + 滾輪：等比例縮放（固定 0.1 步長，確保像素對齊）
+        const { scaleX = current.scaleX, scaleY = current.scaleY } = getWheelTransform(current, delta, 'scale');
+        sprite.scale.set(scaleX, scaleY);
+        this.onScale(this.selectedPieceId, scaleX, scaleY);
         this.updateSelectionBox(this.selectedPieceId);
       }
     }, { passive: false });
@@ -161,6 +180,30 @@ export class GameEngine {
     this.startRenderLoop();
   }
 
+  // 新增或重建單一碎片（關卡編輯器變更形狀時使用）
+  async addPiece(piece: PieceState) {
+    await this.createPiece(piece);
+  }
+
+  // 移除單一碎片
+  removePiece(id: string) {
+    if (this.draggingPieceId === id) {
+      this.isDragging = false;
+      this.draggingPieceId = null;
+    }
+    if (this.selectedPieceId === id) {
+      this.selectedPieceId = null;
+    }
+    this.detachPiece(id);
+  }
+
+  private detachPiece(id: string) {
+    this.pieceSprites.get(id)?.destroy();
+    this.pieceGraphics.get(id)?.destroy();
+    this.pieceSprites.delete(id);
+    this.pieceGraphics.delete(id);
+  }
+
   // 繪製形狀到 Graphics 對象
   private drawShape(
     graphics: PIXI.Graphics,
@@ -322,8 +365,8 @@ export class GameEngine {
     graphics.closePath();
   }
 
-  private async createPiece(piece: PieceState) {
-    // 嘗試載入紋理，如果失敗則創建圖形
+  // 建立碎片的 Sprite：嘗試載入紋理，如果失敗則創建圖形
+  private async createPieceSprite(piece: PieceState): Promise<PIXI.Sprite> {
     let sprite: PIXI.Sprite;
     const shapeType: ShapeType = piece.shape?.type ?? 'rectangle';
     const width = piece.shape?.width ?? 100;
@@ -356,7 +399,13 @@ export class GameEngine {
       text.anchor.set(0.5);
       graphics.addChild(text);
 
-      const texture = this.app.renderer.generateTexture(graphics);
+      // 以形狀原點為中心產生貼圖（五邊形、星形、心形的外接框不對稱），錨點才會落在碎片座標上
+      const bounds = graphics.getLocalBounds();
+      const halfW = Math.max(-bounds.left, bounds.right);
+      const halfH = Math.max(-bounds.top, bounds.bottom);
+      const texture = this.app.renderer.generateTexture(graphics, {
+        region: new PIXI.Rectangle(-halfW, -halfH, halfW * 2, halfH * 2),
+      });
       sprite = new PIXI.Sprite(texture);
       graphics.destroy();
     }
@@ -366,15 +415,32 @@ export class GameEngine {
     sprite.y = piece.current.y;
     sprite.rotation = degToRad(piece.current.rotation);
     sprite.scale.set(piece.current.scaleX, piece.current.scaleY);
+    return sprite;
+  }
 
-    // 設定互動
-    sprite.eventMode = 'static';
-    sprite.cursor = 'pointer';
+  private async createPiece(piece: PieceState) {
+    const sprite = await this.createPieceSprite(piece);
+
+    // 引擎已銷毀（載入貼圖期間卸載）時不再加入
+    if (this.isDestroyed) {
+      sprite.destroy();
+      return;
+    }
+
+    // 同 ID 的碎片已存在時取代（保留選取狀態）
+    this.detachPiece(piece.id);
 
     // 儲存碎片 ID
     (sprite as PIXI.Sprite & { pieceId: string }).pieceId = piece.id;
 
-    this.setupPieceInteraction(sprite, piece.id);
+    // 設定互動
+    if (this.readOnly) {
+      sprite.eventMode = 'none';
+    } else {
+      sprite.eventMode = 'static';
+      sprite.cursor = 'pointer';
+      this.setupPieceInteraction(sprite, piece.id);
+    }
 
     // 建立選取框
     const selectionGraphics = new PIXI.Graphics();
@@ -384,6 +450,13 @@ export class GameEngine {
     this.app.stage.addChild(sprite);
     this.app.stage.addChild(selectionGraphics);
     this.pieceSprites.set(piece.id, sprite);
+
+    if (this.selectedPieceId === piece.id) {
+      this.updateSelectionVisuals();
+    }
+    if (this.highlightedPieceId === piece.id) {
+      this.updateHighlight();
+    }
   }
 
   private getColorForPiece(id: string): number {
@@ -436,38 +509,13 @@ export class GameEngine {
       const globalPos = e.global;
       const { size: snapSize } = this.getSnapState(); // snapEnabled is always true now
 
-      // 計算原始的目標位置 (未吸附)
-      const newRawX = globalPos.x + this.dragOffset.x;
-      const newRawY = globalPos.y + this.dragOffset.y;
+      // 計算原始的目標位置 (未吸附)，超過半個吸附距離才跳到下一個吸附點
+      const raw = { x: globalPos.x + this.dragOffset.x, y: globalPos.y + this.dragOffset.y };
+      const snapped = getStickySnapPosition({ x: this.lastSnappedX, y: this.lastSnappedY }, raw, snapSize);
+      this.lastSnappedX = snapped.x;
+      this.lastSnappedY = snapped.y;
 
-      let nextSnappedX = this.lastSnappedX;
-      let nextSnappedY = this.lastSnappedY;
-
-      if (snapSize > 0) {
-        // 判斷是否超過了吸附閾值
-        const threshold = snapSize / 2;
-
-        // X 軸
-        if (Math.abs(newRawX - this.lastSnappedX) >= threshold) {
-          // 已經移動超過半個吸附距離，計算下一個吸附點
-          nextSnappedX = Math.round(newRawX / snapSize) * snapSize;
-        }
-        
-        // Y 軸
-        if (Math.abs(newRawY - this.lastSnappedY) >= threshold) {
-          nextSnappedY = Math.round(newRawY / snapSize) * snapSize;
-        }
 
-        // 如果計算出的下一個吸附點與當前不同，則更新
-        if (nextSnappedX !== this.lastSnappedX || nextSnappedY !== this.lastSnappedY) {
-          this.lastSnappedX = nextSnappedX;
-          this.lastSnappedY = nextSnappedY;
-        }
-      } else { // snapSize is 0 or negative, which shouldn't happen, but just in case
-        this.lastSnappedX = newRawX;
-        this.lastSnappedY = newRawY;
-      }
-      
       this.targetPosition = { x: this.lastSnappedX, y: this.lastSnappedY };
     });
 
@@ -552,6 +600,52 @@ export class GameEngine {
     graphics.endFill();
   }
 
+  // 誤差標示框：紅色虛線外框，繪製在所有碎片之上
+  private updateHighlight() {
+    const sprite = this.highlightedPieceId ? this.pieceSprites.get(this.highlightedPieceId) : undefined;
+    if (!sprite) {
+      this.highlightGraphics?.clear();
+      return;
+    }
+
+    if (!this.highlightGraphics) {
+      this.highlightGraphics = new PIXI.Graphics();
+    }
+    const graphics = this.highlightGraphics;
+    this.app.stage.addChild(graphics);  // 重新加入以保持在最上層
+    graphics.clear();
+    graphics.x = sprite.x;
+    graphics.y = sprite.y;
+    graphics.rotation = sprite.rotation;
+    graphics.scale.set(sprite.scale.x, sprite.scale.y);
+
+    const bounds = sprite.getLocalBounds();
+    const padding = 8;
+    const left = bounds.x - padding;
+    const top = bounds.y - padding;
+    const right = bounds.x + bounds.width + padding;
+    const bottom = bounds.y + bounds.height + padding;
+    const dash = 6;
+
+    graphics.lineStyle(2, 0xff0055, 0.9);
+    for (let x = left; x < right; x += dash * 2) {
+      const end = Math.min(x + dash, right);
+      graphics.moveTo(x, top).lineTo(end, top);
+      graphics.moveTo(x, bottom).lineTo(end, bottom);
+    }
+    for (let y = top; y < bottom; y += dash * 2) {
+      const end = Math.min(y + dash, bottom);
+      graphics.moveTo(left, y).lineTo(left, end);
+      graphics.moveTo(right, y).lineTo(right, end);
+    }
+  }
+
+  // 設定標示的碎片（null 為取消標示）
+  setHighlightedPiece(id: string | null) {
+    this.highlightedPieceId = id;
+    this.updateHighlight();
+  }
+
   // 設定是否隱藏選取框（對答案時使用）
   setHideSelectionBox(hide: boolean) {
     this.hideSelectionBox = hide;
@@ -566,6 +660,8 @@ export class GameEngine {
   }
 
   private startRenderLoop() {
+    if (this.animationFrameId !== null) return;
+
     const animate = () => {
       // 只移動正在拖曳的那個方塊
       if (this.isDragging && this.draggingPieceId) {
@@ -581,6 +677,9 @@ export class GameEngine {
           if (graphics && graphics.visible) {
             this.drawSelectionBox(graphics, sprite);
           }
+          if (this.highlightedPieceId === this.draggingPieceId) {
+            this.updateHighlight();
+          }
         }
       }
 
@@ -610,6 +709,103 @@ export class GameEngine {
     if (graphics && graphics.visible) {
       this.drawSelectionBox(graphics, sprite);
     }
+    if (this.highlightedPieceId === id) {
+      this.updateHighlight();
+    }
+  }
+
+  // 顯示目標外框：與碎片相同的形狀，虛線描邊（傳入空陣列即清除）
+  setTargets(pieces: PieceConfig[]) {
+    if (!this.targetGraphics) {
+      this.targetGraphics = new PIXI.Graphics();
+      this.app.stage.addChildAt(this.targetGraphics, 0);
+    }
+    const graphics = this.targetGraphics;
+    graphics.clear();
+
+    const dash = 6;
+    pieces.forEach((piece) => {
+      const { x, y, rotation, scaleX, scaleY } = piece.target_transform;
+      const rad = degToRad(rotation);
+      const cos = Math.cos(rad);
+      const sin = Math.sin(rad);
+      // 在畫布座標中描邊，線寬與虛線長度不受縮放影響
+      const points = getShapeOutline(piece.shape).map((p) => ({
+        x: x + p.x * scaleX * cos - p.y * scaleY * sin,
+        y: y + p.x * scaleX * sin + p.y * scaleY * cos,
+      }));
+
+      graphics.lineStyle(0);
+      graphics.beginFill(0x00ff88, 0.08);
+      graphics.drawPolygon(points.flatMap((p) => [p.x, p.y]));
+      graphics.endFill();
+
+      // 虛線沿著外形連續前進（曲線取樣的短邊不會重新起算）
+      graphics.lineStyle(2, 0x00ff88, 0.5);
+      let offset = 0;
+      points.forEach((from, i) => {
+        const to = points[(i + 1) % points.length];
+        const length = Math.hypot(to.x - from.x, to.y - from.y);
+        for (let t = -offset; t < length; t += dash * 2) {
+          const start = Math.max(t, 0);
+          const end = Math.min(t + dash, length);
+          if (end <= start) continue;
+          graphics
+            .moveTo(from.x + ((to.x - from.x) * start) / length, from.y + ((to.y - from.y) * start) / length)
+            .lineTo(from.x + ((to.x - from.x) * end) / length, from.y + ((to.y - from.y) * end) / length);
+        }
+        offset = (offset + length) % (dash * 2);
+      });
+    });
+  }
+
+  // 顯示幽靈碎片（傳入 null 即移除）
+  async setGhostPieces(pieces: PieceState[] | null) {
+    const version = ++this.ghostVersion;
+    this.ghostSprites.forEach((sprite) => sprite.destroy());
+    this.ghostSprites.clear();
+    if (!pieces) return;
+
+    if (!this.ghostLayer) {
+      this.ghostLayer = new PIXI.Container();
+      this.ghostLayer.eventMode = 'none';
+      this.ghostLayer.alpha = 0.35;
+      this.app.stage.addChildAt(this.ghostLayer, this.targetGraphics ? 1 : 0);
+    }
+
+    const sprites = await Promise.all(pieces.map((piece) => this.createPieceSprite(piece)));
+    // 載入期間引擎已銷毀，或已再次設定幽靈
+    if (this.isDestroyed || version !== this.ghostVersion) {
+      sprites.forEach((sprite) => sprite.destroy());
+      return;
+    }
+    sprites.forEach((sprite, i) => {
+      this.ghostLayer?.addChild(sprite);
+      this.ghostSprites.set(pieces[i].id, sprite);
+    });
+  }
+
+  // 更新幽靈碎片的變換
+  updateGhost(id: string, transform: Transform) {
+    const sprite = this.ghostSprites.get(id);
+    if (!sprite) return;
+
+    sprite.x = transform.x;
+    sprite.y = transform.y;
+    sprite.rotation = degToRad(transform.rotation);
+    sprite.scale.set(transform.scaleX, transform.scaleY);
+  }
+
+  // 立即繪製並讀取目前畫面（含背景），尺寸為畫布大小 × 解析度
+  captureFrame(): RgbaImage {
+    const renderer = this.app.renderer;
+    renderer.render(this.app.stage);
+    const pixels = renderer.extract.pixels();
+    return {
+      width: renderer.width,
+      height: renderer.height,
+      data: new Uint8Array(pixels.buffer, pixels.byteOffset, pixels.byteLength),
+    };
   }
 
   // 設定選取狀態
@@ -629,9 +825,15 @@ export class GameEngine {
   // 銷毀引擎
   destroy() {
     // 重置所有狀態
+    this.isDestroyed = true;
     this.isDragging = false;
     this.draggingPieceId = null;
     this.selectedPieceId = null;
+    this.highlightedPieceId = null;
+    this.highlightGraphics = null;
+    this.targetGraphics = null;
+    this.ghostLayer = null;
+    this.ghostSprites.clear();
     this.lastTapTime = 0;
 
     if (this.animationFrameId) {
@@ -645,3 +847,25 @@ export class GameEngine {
     this.app.destroy(true, { children: true, texture: true });
   }
 }
+
+const noop = () => {};
+
+// 唯讀引擎（回放畫面、影格匯出）：不處理輸入，也不需要互動回調
+export function createViewerEngine(
+  container: HTMLElement,
+  levelConfig: LevelConfig,
+  options: { resolution?: number } = {}
+): GameEngine {
+  return new GameEngine({
+    container,
+    levelConfig,
+    onPieceSelect: noop,
+    onPieceTransformEnd: noop,
+    onDoubleTap: noop,
+    onRotate: noop,
+    onScale: noop,
+    getSnapState: () => ({ enabled: false, size: 1 }),
+    readOnly: true,
+    resolution: options.resolution,
+  });
+}
@@ -0,0 +1,105 @@
+import { createViewerEngine } from './GameEngine';
+import { buildReplayTimeline, getPiecesAtIndex } from '../levels';
+import { ApngEncoder, composeSpriteSheet, encodePng } from '../utils';
+import type { RgbaImage } from '../utils';
+import type { ActionLog, LevelConfig } from '../types';
+
+// ===== 回放影格匯出 =====
+// 以離屏的唯讀 GameEngine 逐步繪製回放（起始狀態 + 每個操作後各一格），輸出 PNG 精靈圖或 APNG 動畫
+
+export type ReplayExportFormat = 'spritesheet' | 'apng';
+
+export interface ReplayExportOptions {
+  format: ReplayExportFormat;
+  fps: number;      // 每秒幾個操作（影格）
+  scale: number;    // 畫布縮放倍率
+}
+
+export const EXPORT_FPS_OPTIONS = [2, 5, 10, 15, 30];
+export const EXPORT_SCALE_OPTIONS = [0.5, 1, 2];
+
+// 影格數上限：操作更多時平均取樣（保留第一格與最後一格）
+const MAX_APNG_FRAMES = 240;
+const MAX_SHEET_FRAMES = 64;
+// 精靈圖的最大邊長（多數圖片檢視器與 GPU 貼圖的上限）
+const MAX_SHEET_SIZE = 8192;
+// 動畫最後一格（結果）多停留的時間
+const FINAL_FRAME_HOLD_MS = 1000;
+
+// 要繪製的操作索引（-1 為起始狀態），超過上限時平均取樣
+export function getExportFrameIndices(actionCount: number, maxFrames: number): number[] {
+  const total = actionCount + 1;
+  if (total <= maxFrames) {
+    return Array.from({ length: total }, (_, i) => i - 1);
+  }
+  const indices = Array.from({ length: maxFrames }, (_, i) => Math.round((i * (total - 1)) / Math.max(1, maxFrames - 1)) - 1);
+  return [...new Set(indices)];
+}
+
+// 精靈圖在最大邊長內可放的欄數與列數
+function getSheetGrid(frameWidth: number, frameHeight: number) {
+  return {
+    columns: Math.max(1, Math.floor(MAX_SHEET_SIZE / frameWidth)),
+    rows: Math.max(1, Math.floor(MAX_SHEET_SIZE / frameHeight)),
+  };
+}
+
+// 接近正方形的排列，但不超過最大邊長
+function getSheetColumns(frameCount: number, frameWidth: number, frameHeight: number): number {
+  const grid = getSheetGrid(frameWidth, frameHeight);
+  const square = Math.min(Math.ceil(Math.sqrt(frameCount)), grid.columns);
+  return Math.max(square, Math.ceil(frameCount / grid.rows));
+}
+
+export function getReplayExportFileName(levelConfig: LevelConfig, format: ReplayExportFormat): string {
+  return `level${levelConfig.level_id}-replay-${format === 'apng' ? 'anim' : 'frames'}.png`;
+}
+
+// 讓出主執行緒，匯出長回放時畫面不會卡住
+function nextTask(): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, 0));
+}
+
+export async function exportReplayFrames(
+  levelConfig: LevelConfig,
+  actionLogs: ActionLog[],
+  options: ReplayExportOptions,
+  onProgress?: (done: number, total: number) => void
+): Promise<Blob> {
+  const { format, fps, scale } = options;
+  const timeline = buildReplayTimeline(levelConfig, actionLogs);
+  const frameWidth = Math.round(levelConfig.canvas.width * scale);
+  const frameHeight = Math.round(levelConfig.canvas.height * scale);
+  const grid = getSheetGrid(frameWidth, frameHeight);
+  const maxFrames = format === 'apng' ? MAX_APNG_FRAMES : Math.min(MAX_SHEET_FRAMES, grid.columns * grid.rows);
+  const indices = getExportFrameIndices(actionLogs.length, maxFrames);
+
+  // 不加入文件的容器：畫面只存在於 WebGL 緩衝區
+  const engine = createViewerEngine(document.createElement('div'), levelConfig, { resolution: scale });
+  try {
+    engine.setTargets(levelConfig.pieces);
+    await engine.loadPieces(getPiecesAtIndex(timeline, -1));
+
+    const frameDelay = 1000 / fps;
+    const apng = format === 'apng' ? new ApngEncoder(frameWidth, frameHeight) : null;
+    const frames: RgbaImage[] = [];
+
+    for (let i = 0; i < indices.length; i++) {
+      getPiecesAtIndex(timeline, indices[i]).forEach((piece) => engine.updatePiece(piece.id, piece.current));
+      const frame = engine.captureFrame();
+      if (apng) {
+        const isLast = i === indices.length - 1;
+        await apng.addFrame(frame, isLast ? frameDelay + FINAL_FRAME_HOLD_MS : frameDelay);
+      } else {
+        frames.push(frame);
+      }
+      onProgress?.(i + 1, indices.length);
+      await nextTask();
+    }
+
+    if (apng) return apng.finish();
+    return encodePng(composeSpriteSheet(frames, getSheetColumns(frames.length, frameWidth, frameHeight)));
+  } finally {
+    engine.destroy();
+  }
+}
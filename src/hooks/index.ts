@@ -1 +1,2 @@
 export { useResponsiveScale } from './useResponsiveScale';
+export { useKeyboardControls } from './useKeyboardControls';
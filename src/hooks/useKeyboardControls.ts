@@ -0,0 +1,189 @@
+import { useEffect, useRef } from 'react';
+import { useGameStore } from '../stores/gameStore';
+import { buildControlActionLog, getControlTransform, getSnapStep } from '../utils';
+import { evaluatePieces } from '../simulation';
+import type { ControlAction, Transform } from '../types';
+
+// Shift + 方向鍵的步長倍率
+const LARGE_MOVE_MULTIPLIER = 5;
+
+interface ActiveKeyControl {
+  key: string;
+  action: ControlAction;
+  pieceId: string;
+  start: Transform;
+}
+
+// 判斷是否正在輸入文字（避免搶走輸入框的按鍵）
+function isTypingTarget(target: EventTarget | null): boolean {
+  if (!(target instanceof HTMLElement)) return false;
+  return target.isContentEditable || ['INPUT', 'TEXTAREA', 'SELECT'].includes(target.tagName);
+}
+
+// 將按鍵轉換為控制操作（W/H 按住時 +/- 只調整寬/高）
+function getKeyAction(key: string, heldKeys: Set<string>, uniformScaleOnly: boolean): ControlAction | null {
+  switch (key) {
+    case 'arrowup':
+      return 'move-up';
+    case 'arrowdown':
+      return 'move-down';
+    case 'arrowleft':
+      return 'move-left';
+    case 'arrowright':
+      return 'move-right';
+    case 'q':
+      return 'rotate-left';
+    case 'e':
+      return 'rotate-right';
+    case '+':
+    case '=':
+      if (!uniformScaleOnly && heldKeys.has('w')) return 'width-up';
+      if (!uniformScaleOnly && heldKeys.has('h')) return 'height-up';
+      return 'scale-up';
+    case '-':
+    case '_':
+      if (!uniformScaleOnly && heldKeys.has('w')) return 'width-down';
+      if (!uniformScaleOnly && heldKeys.has('h')) return 'height-down';
+      return 'scale-down';
+    default:
+      return null;
+  }
+}
+
+// 鍵盤操作：Tab 切換選取、方向鍵移動、Q/E 旋轉、+/- 縮放、Ctrl+Z 撤銷
+// 與 TransformControls 相同：按下時套用變換，放開時寫入一筆操作記錄；按住途中達到過關條件時先寫入記錄再判定勝利
+export function useKeyboardControls(enabled: boolean) {
+  const heldKeysRef = useRef<Set<string>>(new Set());
+  const activeRef = useRef<ActiveKeyControl | null>(null);
+
+  useEffect(() => {
+    if (!enabled) return;
+
+    const heldKeys = heldKeysRef.current;
+
+    // 結束目前的按鍵操作並寫入操作記錄
+    const flushActive = () => {
+      const active = activeRef.current;
+      activeRef.current = null;
+      if (!active) return;
+
+      const { pieces, addActionLog } = useGameStore.getState();
+      const piece = pieces.find((p) => p.id === active.pieceId);
+      if (!piece) return;
+
+      const log = buildControlActionLog(active.pieceId, active.action, active.start, piece.current);
+      if (log) {
+        addActionLog(log);
+      }
+    };
+
+    // 依序切換選取的碎片
+    const cycleSelection = (backward: boolean) => {
+      const { pieces, selectedPieceId, selectPiece } = useGameStore.getState();
+      if (pieces.length === 0) return;
+
+      const currentIndex = pieces.findIndex((p) => p.id === selectedPieceId);
+      let nextIndex: number;
+      if (currentIndex === -1) {
+        nextIndex = backward ? pieces.length - 1 : 0;
+      } else {
+        nextIndex = (currentIndex + (backward ? -1 : 1) + pieces.length) % pieces.length;
+      }
+      selectPiece(pieces[nextIndex].id);
+    };
+
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (isTypingTarget(e.target)) return;
+
+      const state = useGameStore.getState();
+      const key = e.key.toLowerCase();
+
+      // 撤銷/重做（Ctrl/Cmd+Z、Ctrl/Cmd+Shift+Z）
+      if ((e.ctrlKey || e.metaKey) && key === 'z') {
+        e.preventDefault();
+        flushActive();
+        if (e.shiftKey) {
+          state.redo();
+        } else {
+          state.undo();
+        }
+        return;
+      }
+
+      if (e.ctrlKey || e.metaKey || e.altKey) return;
+      if (state.gameState !== 'PLAYING') return;
+
+      if (key === 'tab') {
+        e.preventDefault();
+        flushActive();
+        cycleSelection(e.shiftKey);
+        return;
+      }
+
+      if (key === 'escape') {
+        flushActive();
+        state.selectPiece(null);
+        return;
+      }
+
+      const action = getKeyAction(key, heldKeys, state.levelConfig?.uniform_scale_only ?? false);
+      if (!action) {
+        heldKeys.add(key);
+        return;
+      }
+
+      const { selectedPieceId } = state;
+      if (!selectedPieceId) return;
+      e.preventDefault();
+
+      // 換了按鍵或碎片時，先結束上一個操作
+      const active = activeRef.current;
+      if (active && (active.key !== key || active.action !== action || active.pieceId !== selectedPieceId)) {
+        flushActive();
+      }
+
+      const piece = state.pieces.find((p) => p.id === selectedPieceId);
+      if (!piece) return;
+
+      if (!activeRef.current) {
+        activeRef.current = { key, action, pieceId: selectedPieceId, start: { ...piece.current } };
+      }
+
+      // 位置微調步長（Shift 為大步長）
+      const moveStep = getSnapStep(state.snapSize) * (e.shiftKey ? LARGE_MOVE_MULTIPLIER : 1);
+
+      state.updatePieceTransform(selectedPieceId, getControlTransform(piece, action, moveStep));
+
+      const { pieces, levelConfig, checkWinCondition } = useGameStore.getState();
+      if (levelConfig && evaluatePieces(pieces, levelConfig).rating) {
+        flushActive();
+        checkWinCondition();
+      }
+    };
+
+    const handleKeyUp = (e: KeyboardEvent) => {
+      const key = e.key.toLowerCase();
+      heldKeys.delete(key);
+
+      // 放開任何按鍵都結束目前操作（Shift 先放開時 '+' 的 keyup 會變成 '='）
+      flushActive();
+    };
+
+    // 視窗失焦時不會收到 keyup，直接結束操作
+    const handleBlur = () => {
+      heldKeys.clear();
+      flushActive();
+    };
+
+    window.addEventListener('keydown', handleKeyDown);
+    window.addEventListener('keyup', handleKeyUp);
+    window.addEventListener('blur', handleBlur);
+
+    return () => {
+      window.removeEventListener('keydown', handleKeyDown);
+      window.removeEventListener('keyup', handleKeyUp);
+      window.removeEventListener('blur', handleBlur);
+      handleBlur();
+    };
+  }, [enabled]);
+}
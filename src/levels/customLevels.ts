@@ -0,0 +1,104 @@
+import type { LevelConfig } from '../types';
+import { hashString } from '../utils';
+import { validateLevelConfig } from './validateLevel';
+import type { LevelValidationResult } from './validateLevel';
+
+// ===== 自訂關卡：檔案、分享碼與分享連結 =====
+
+// 分享碼前綴（格式變更時遞增版本）
+const SHARE_CODE_PREFIX = 'PA1.';
+// 分享連結中的查詢參數
+export const SHARE_URL_PARAM = 'level';
+
+// 依鍵排序後序列化，相同內容的關卡得到相同字串
+function canonicalStringify(value: unknown): string {
+  if (Array.isArray(value)) {
+    return `[${value.map(canonicalStringify).join(',')}]`;
+  }
+  if (typeof value === 'object' && value !== null) {
+    const entries = Object.entries(value)
+      .filter(([, v]) => v !== undefined)
+      .sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0));
+    return `{${entries.map(([k, v]) => `${JSON.stringify(k)}:${canonicalStringify(v)}`).join(',')}}`;
+  }
+  return JSON.stringify(value);
+}
+
+// 關卡內容雜湊（FNV-1a 32 位元），用於辨識自訂關卡與去除重複
+export function hashLevelConfig(config: LevelConfig): string {
+  return hashString(canonicalStringify(config)).toString(16).padStart(8, '0');
+}
+
+// 自訂關卡的識別鍵
+export function getCustomLevelKey(config: LevelConfig): string {
+  return `custom-${hashLevelConfig(config)}`;
+}
+
+function toBase64Url(text: string): string {
+  let binary = '';
+  new TextEncoder().encode(text).forEach((byte) => {
+    binary += String.fromCharCode(byte);
+  });
+  return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+}
+
+function fromBase64Url(code: string): string {
+  const base64 = code.replace(/-/g, '+').replace(/_/g, '/');
+  const binary = atob(base64.padEnd(Math.ceil(base64.length / 4) * 4, '='));
+  const bytes = Uint8Array.from(binary, (char) => char.charCodeAt(0));
+  return new TextDecoder('utf-8', { fatal: true }).decode(bytes);
+}
+
+// 匯出為分享碼（壓縮空白的 JSON，base64url 編碼）
+export function encodeShareCode(config: LevelConfig): string {
+  return SHARE_CODE_PREFIX + toBase64Url(JSON.stringify(config));
+}
+
+// 分享連結：目前網址加上 ?level=<分享碼>
+export function getShareUrl(config: LevelConfig, baseUrl: string): string {
+  const url = new URL(baseUrl);
+  url.hash = '';
+  url.search = '';
+  url.searchParams.set(SHARE_URL_PARAM, encodeShareCode(config));
+  return url.toString();
+}
+
+// 從網址取出分享碼，沒有時回傳 null
+export function getShareCodeFromUrl(href: string): string | null {
+  try {
+    return new URL(href).searchParams.get(SHARE_URL_PARAM);
+  } catch {
+    return null;
+  }
+}
+
+// 解析 JSON 文字（關卡檔案）並驗證
+export function parseLevelJson(text: string, file: string): LevelValidationResult {
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch (error) {
+    const reason = error instanceof Error ? error.message : String(error);
+    return { ok: false, issues: [{ file, path: '$', message: `不是有效的 JSON：${reason}` }] };
+  }
+  return validateLevelConfig(data, file);
+}
+
+// 解析分享碼或分享連結並驗證
+export function parseShareCode(input: string): LevelValidationResult {
+  const file = '分享碼';
+  const trimmed = input.trim();
+  const code = getShareCodeFromUrl(trimmed) ?? trimmed;
+
+  if (!code.startsWith(SHARE_CODE_PREFIX)) {
+    return { ok: false, issues: [{ file, path: '$', message: `分享碼必須以 ${SHARE_CODE_PREFIX} 開頭` }] };
+  }
+
+  let text: string;
+  try {
+    text = fromBase64Url(code.slice(SHARE_CODE_PREFIX.length));
+  } catch {
+    return { ok: false, issues: [{ file, path: '$', message: '分享碼內容損壞，無法解碼' }] };
+  }
+  return parseLevelJson(text, file);
+}
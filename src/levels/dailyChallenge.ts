@@ -0,0 +1,57 @@
+import type { DailyResult, LevelConfig } from '../types';
+import { GENERATOR_PRESETS, generateLevel } from './generateLevel';
+import type { GeneratorDifficulty } from './generateLevel';
+
+// ===== 每日挑戰 =====
+// 以當地日期（YYYY-MM-DD）為種子，所有玩家同一天拿到相同關卡
+
+// 依星期安排難度（週日為 0）：週初簡單、週末困難
+const WEEKDAY_DIFFICULTY: GeneratorDifficulty[] = ['hard', 'easy', 'easy', 'normal', 'normal', 'normal', 'hard'];
+
+function pad(value: number): string {
+  return String(value).padStart(2, '0');
+}
+
+// 當地日期字串，例如 2026-10-19
+export function getDailyDateKey(date: Date = new Date()): string {
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+}
+
+// 日期字串轉回當地午夜的 Date
+function parseDateKey(dateKey: string): Date {
+  const [year, month, day] = dateKey.split('-').map(Number);
+  return new Date(year, month - 1, day);
+}
+
+// 前一天的日期字串（以日曆計算，不受日光節約時間影響）
+function getPreviousDateKey(dateKey: string): string {
+  const date = parseDateKey(dateKey);
+  date.setDate(date.getDate() - 1);
+  return getDailyDateKey(date);
+}
+
+export function getDailyDifficulty(dateKey: string): GeneratorDifficulty {
+  return WEEKDAY_DIFFICULTY[parseDateKey(dateKey).getDay()];
+}
+
+// 產生指定日期的每日關卡；level_id 使用 YYYYMMDD，不與內建關卡衝突
+export function generateDailyLevel(dateKey: string): LevelConfig {
+  return generateLevel({
+    seed: `daily-${dateKey}`,
+    ...GENERATOR_PRESETS[getDailyDifficulty(dateKey)],
+    levelId: Number(dateKey.replace(/-/g, '')),
+    title: `每日挑戰 ${dateKey}`,
+  });
+}
+
+// 連續完成天數：從今天（今天尚未挑戰時從昨天）往回數
+export function getDailyStreak(results: DailyResult[], todayKey: string = getDailyDateKey()): number {
+  const played = new Set(results.map((result) => result.date));
+  let dateKey = played.has(todayKey) ? todayKey : getPreviousDateKey(todayKey);
+  let streak = 0;
+  while (played.has(dateKey)) {
+    streak++;
+    dateKey = getPreviousDateKey(dateKey);
+  }
+  return streak;
+}
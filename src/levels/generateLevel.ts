@@ -0,0 +1,274 @@
+import type { LevelConfig, PieceConfig, ShapeType, Transform } from '../types';
+import {
+  MAX_SCALE,
+  MIN_SCALE,
+  ROTATION_STEP,
+  UNIFORM_SCALE_STEP,
+  createSeededRandom,
+  getAxisScaleStep,
+  getSnapStep,
+  normalizeAngle,
+} from '../utils';
+
+// ===== 程序化關卡產生器 =====
+// 相同種子與參數永遠產生相同關卡；所有數值都落在控制列步長的格點上，保證可以精確對齊
+
+export interface LevelGeneratorOptions {
+  seed: number | string;
+  pieceCount: number;
+  shapeTypes: ShapeType[];     // 可使用的形狀
+  rotation: boolean;           // 是否需要旋轉
+  nonUniformScale: boolean;    // 是否需要單獨調整寬高（否則只需等比縮放）
+  startDistance: number;       // 起始位置與目標的大約距離（像素）
+  levelId?: number;
+  title?: string;
+  canvas?: LevelConfig['canvas'];
+  winThreshold?: number;
+}
+
+export type GeneratorDifficulty = 'easy' | 'normal' | 'hard';
+
+const ALL_SHAPE_TYPES: ShapeType[] = [
+  'rectangle', 'circle', 'triangle', 'diamond', 'pentagon',
+  'hexagon', 'octagon', 'star', 'heart', 'cross',
+];
+
+export const GENERATOR_PRESETS: Record<GeneratorDifficulty, Omit<LevelGeneratorOptions, 'seed'>> = {
+  easy: {
+    pieceCount: 2,
+    shapeTypes: ['rectangle', 'circle', 'triangle', 'diamond'],
+    rotation: false,
+    nonUniformScale: false,
+    startDistance: 80,
+  },
+  normal: {
+    pieceCount: 3,
+    shapeTypes: ALL_SHAPE_TYPES,
+    rotation: true,
+    nonUniformScale: false,
+    startDistance: 140,
+  },
+  hard: {
+    pieceCount: 4,
+    shapeTypes: ALL_SHAPE_TYPES,
+    rotation: true,
+    nonUniformScale: true,
+    startDistance: 200,
+  },
+};
+
+const DEFAULT_CANVAS: LevelConfig['canvas'] = { width: 375, height: 500, background: '#1a1a2e' };
+const PIECE_COLORS = ['#e94560', '#16c79a', '#f9a825', '#7b2cbf', '#00bcd4', '#ff6f3c'];
+
+// 碎片邊長：寬高步長 10/size 為有限小數（0.25、0.2、0.125、0.1）
+const PIECE_SIZES = [40, 50, 80, 100];
+// 寬高相同才有意義的形狀（繪製時取較短邊）
+const SQUARE_SHAPES: ShapeType[] = ['circle', 'pentagon', 'hexagon', 'octagon', 'star'];
+
+// 位置格點：最小 snap 步長，拖曳與微調都能精確到達
+const GRID = getSnapStep(1);
+// 目標之間保留的間距
+const TARGET_GAP = GRID * 2;
+const MAX_ATTEMPTS = 200;
+// 碎片擠不下時整組重新擺放的次數（沿用同一個亂數序列，結果仍然固定）
+const MAX_LAYOUTS = 20;
+
+interface Box {
+  left: number;
+  right: number;
+  top: number;
+  bottom: number;
+}
+
+// 旋轉與縮放後的外接矩形半寬/半高
+function getHalfExtents(width: number, height: number, transform: Omit<Transform, 'x' | 'y'>) {
+  const w = width * transform.scaleX;
+  const h = height * transform.scaleY;
+  const rad = (transform.rotation * Math.PI) / 180;
+  const cos = Math.abs(Math.cos(rad));
+  const sin = Math.abs(Math.sin(rad));
+  return { halfX: (w * cos + h * sin) / 2, halfY: (w * sin + h * cos) / 2 };
+}
+
+function toBox(x: number, y: number, halfX: number, halfY: number, gap = 0): Box {
+  return { left: x - halfX - gap, right: x + halfX + gap, top: y - halfY - gap, bottom: y + halfY + gap };
+}
+
+function overlaps(a: Box, b: Box): boolean {
+  return a.left < b.right && b.left < a.right && a.top < b.bottom && b.top < a.bottom;
+}
+
+// 去除浮點誤差（步長皆為有限小數）
+function roundScale(value: number): number {
+  return Math.round(value * 1000) / 1000;
+}
+
+// 對齊格點並限制在畫布內（碎片完整可見），放不下時回傳 null
+function snapInside(value: number, half: number, size: number): number | null {
+  const lo = Math.ceil(half / GRID) * GRID;
+  const hi = Math.floor((size - half) / GRID) * GRID;
+  if (lo > hi) return null;
+  return Math.min(Math.max(Math.round(value / GRID) * GRID, lo), hi);
+}
+
+function inScaleRange(value: number): boolean {
+  return value >= MIN_SCALE && value <= MAX_SCALE;
+}
+
+export function generateLevel(options: LevelGeneratorOptions): LevelConfig {
+  const {
+    seed,
+    pieceCount,
+    shapeTypes,
+    rotation,
+    nonUniformScale,
+    startDistance,
+    levelId = 1,
+    canvas = DEFAULT_CANVAS,
+    winThreshold = 10,
+  } = options;
+
+  if (pieceCount < 1) throw new Error('碎片數量至少為 1');
+  if (shapeTypes.length === 0) throw new Error('至少需要一種形狀');
+
+  const random = createSeededRandom(seed);
+  const pickInt = (min: number, max: number) => min + Math.floor(random() * (max - min + 1));
+  const pick = <T,>(items: T[]): T => items[pickInt(0, items.length - 1)];
+  // 非零的整數步數（±min ~ ±max）
+  const pickNonZero = (min: number, max: number) => pickInt(min, max) * (random() < 0.5 ? -1 : 1);
+  // 隨機取完整落在畫布內的格點，放不下時回傳 null
+  const pickOnGrid = (half: number, size: number) => {
+    const lo = Math.ceil(half / GRID);
+    const hi = Math.floor((size - half) / GRID);
+    if (lo > hi) return null;
+    return pickInt(lo, hi) * GRID;
+  };
+
+  let failure = '';
+
+  // 依序擺放所有碎片，任何一片放不下就回傳 null
+  const layoutPieces = (): PieceConfig[] | null => {
+    const targetBoxes: Box[] = [];
+    const startBoxes: Box[] = [];
+    const pieces: PieceConfig[] = [];
+
+    for (let i = 0; i < pieceCount; i++) {
+      const type = pick(shapeTypes);
+      const width = pick(PIECE_SIZES);
+      const height = SQUARE_SHAPES.includes(type) ? width : pick(PIECE_SIZES);
+      const widthStep = getAxisScaleStep(width);
+      const heightStep = getAxisScaleStep(height);
+
+      // 目標的旋轉與縮放
+      const targetRotation = rotation ? pickInt(-18, 18) * ROTATION_STEP : 0;
+      let targetScaleX: number;
+      let targetScaleY: number;
+      if (nonUniformScale) {
+        targetScaleX = roundScale(1 + pickInt(-1, 2) * widthStep);
+        targetScaleY = roundScale(1 + pickInt(-1, 2) * heightStep);
+      } else {
+        targetScaleX = targetScaleY = roundScale(1 + pickInt(-2, 3) * UNIFORM_SCALE_STEP);
+      }
+
+      // 起始的旋轉與縮放（與目標相差整數個步長）
+      const startRotation = rotation
+        ? normalizeAngle(targetRotation + pickNonZero(3, 12) * ROTATION_STEP)
+        : targetRotation;
+      let startScaleX = targetScaleX;
+      let startScaleY = targetScaleY;
+      for (let attempt = 0; attempt < MAX_ATTEMPTS; attempt++) {
+        if (nonUniformScale) {
+          // 寬高差不同步數，只靠等比縮放無法對齊
+          const stepsX = pickNonZero(1, 2);
+          const stepsY = pickNonZero(1, 2);
+          if (stepsX * widthStep === stepsY * heightStep) continue;
+          startScaleX = roundScale(targetScaleX + stepsX * widthStep);
+          startScaleY = roundScale(targetScaleY + stepsY * heightStep);
+        } else {
+          const steps = pickNonZero(1, 3);
+          startScaleX = startScaleY = roundScale(targetScaleX + steps * UNIFORM_SCALE_STEP);
+        }
+        if (inScaleRange(startScaleX) && inScaleRange(startScaleY)) break;
+        startScaleX = targetScaleX;
+        startScaleY = targetScaleY;
+      }
+
+      // 目標位置：完整落在畫布內，且不與其他目標重疊
+      const targetExtents = getHalfExtents(width, height, {
+        rotation: targetRotation, scaleX: targetScaleX, scaleY: targetScaleY,
+      });
+      let target: Transform | null = null;
+      for (let attempt = 0; attempt < MAX_ATTEMPTS && !target; attempt++) {
+        const x = pickOnGrid(targetExtents.halfX, canvas.width);
+        const y = pickOnGrid(targetExtents.halfY, canvas.height);
+        if (x === null || y === null) break;
+
+        const box = toBox(x, y, targetExtents.halfX, targetExtents.halfY, TARGET_GAP / 2);
+        if (targetBoxes.some((other) => overlaps(box, other))) continue;
+
+        targetBoxes.push(box);
+        target = { x, y, rotation: targetRotation, scaleX: targetScaleX, scaleY: targetScaleY };
+      }
+      if (!target) {
+        failure = `無法放置第 ${i + 1} 個碎片的目標位置，請減少碎片數量或加大畫布`;
+        return null;
+      }
+
+      // 起始位置：距離目標約 startDistance，完整落在畫布內，且不與其他起始碎片重疊
+      const startExtents = getHalfExtents(width, height, {
+        rotation: startRotation, scaleX: startScaleX, scaleY: startScaleY,
+      });
+      let start: Transform | null = null;
+      for (let attempt = 0; attempt < MAX_ATTEMPTS && !start; attempt++) {
+        const angle = random() * Math.PI * 2;
+        const distance = startDistance * (0.75 + random() * 0.5);
+        const x = snapInside(target.x + Math.cos(angle) * distance, startExtents.halfX, canvas.width);
+        const y = snapInside(target.y + Math.sin(angle) * distance, startExtents.halfY, canvas.height);
+        if (x === null || y === null) break;
+        // 起始位置與目標完全相同時沒有移動的必要
+        if (x === target.x && y === target.y && startDistance > 0) continue;
+
+        const box = toBox(x, y, startExtents.halfX, startExtents.halfY);
+        if (startBoxes.some((other) => overlaps(box, other))) continue;
+
+        startBoxes.push(box);
+        start = { x, y, rotation: startRotation, scaleX: startScaleX, scaleY: startScaleY };
+      }
+      if (!start) {
+        failure = `無法放置第 ${i + 1} 個碎片的起始位置，請減少碎片數量或調整起始距離`;
+        return null;
+      }
+
+      const index = i + 1;
+      pieces.push({
+        id: `p${index}`,
+        texture: `/assets/levels/generated/piece_${String(index).padStart(2, '0')}.png`,
+        shape: { type, width, height, color: PIECE_COLORS[i % PIECE_COLORS.length] },
+        start_transform: start,
+        target_transform: target,
+      });
+    }
+    return pieces;
+  };
+
+  let pieces: PieceConfig[] | null = null;
+  for (let layout = 0; layout < MAX_LAYOUTS && !pieces; layout++) {
+    pieces = layoutPieces();
+  }
+  if (!pieces) throw new Error(failure);
+
+  const operations = ['移動', rotation && '旋轉', nonUniformScale ? '調整寬高' : '縮放'].filter(Boolean);
+
+  return {
+    level_id: levelId,
+    level_type: 'image_match',
+    title: options.title ?? `隨機關卡 ${seed}`,
+    uniform_scale_only: !nonUniformScale,
+    allow_preview: true,
+    preview_image: '/assets/levels/generated/complete.png',  // 無圖片時預覽顯示目標框
+    text_hint: `${operations.join('、')}碎片，對齊目標位置`,
+    canvas,
+    win_threshold: winThreshold,
+    pieces,
+  };
+}
@@ -0,0 +1,27 @@
+import type { ActionLog, GhostRun, LevelConfig } from '../types';
+import { hashLevelConfig } from './customLevels';
+
+// ===== 幽靈（個人最佳紀錄） =====
+// 每個內建關卡保存最快過關的操作記錄，遊玩時以半透明碎片依相同時間重現，讓玩家與自己競速
+
+export function createGhostRun(config: LevelConfig, actionLogs: ActionLog[]): GhostRun {
+  return {
+    levelHash: hashLevelConfig(config),
+    actionLogs,
+    durationMs: actionLogs.at(-1)?.timestamp ?? 0,
+    recordedAt: Date.now(),
+  };
+}
+
+// 關卡內容改變後（例如更新了目標位置）舊的操作記錄無法重現，不再使用
+export function isGhostRunFor(run: GhostRun | undefined, config: LevelConfig): run is GhostRun {
+  return run !== undefined && run.levelHash === hashLevelConfig(config);
+}
+
+// 較快過關者為新的幽靈；同時間時操作較少者優先。沒有操作記錄的紀錄無法重現，不保存也不保留
+export function isBetterGhostRun(candidate: GhostRun, prev: GhostRun | undefined): boolean {
+  if (candidate.actionLogs.length === 0) return false;
+  if (!prev || prev.actionLogs.length === 0 || prev.levelHash !== candidate.levelHash) return true;
+  if (candidate.durationMs !== prev.durationMs) return candidate.durationMs < prev.durationMs;
+  return candidate.actionLogs.length < prev.actionLogs.length;
+}
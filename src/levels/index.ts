@@ -0,0 +1,40 @@
+export { validateLevelConfig } from './validateLevel';
+export type { LevelValidationIssue, LevelValidationResult } from './validateLevel';
+export { levelRegistry, levelRegistryIssues } from './registry';
+export type { LevelEntry } from './registry';
+export { DRAFT_PIECE_SIZE, createEmptyLevel, createDraftPiece, scatterPieces, serializeLevelConfig } from './levelDraft';
+export {
+  SHARE_URL_PARAM,
+  hashLevelConfig,
+  getCustomLevelKey,
+  encodeShareCode,
+  getShareUrl,
+  getShareCodeFromUrl,
+  parseLevelJson,
+  parseShareCode,
+} from './customLevels';
+export { GENERATOR_PRESETS, generateLevel } from './generateLevel';
+export type { GeneratorDifficulty, LevelGeneratorOptions } from './generateLevel';
+export {
+  generateDailyLevel,
+  getDailyDateKey,
+  getDailyDifficulty,
+  getDailyStreak,
+} from './dailyChallenge';
+export { getLevelPar, solveLevel, solvePiece, solvePosition, solveRotation, solveScale } from './solveLevel';
+export type { LevelSolution, PieceSolution, ResolvedLevelPar, SolveAspect } from './solveLevel';
+export {
+  REPLAY_FORMAT,
+  REPLAY_VERSION,
+  createReplayFile,
+  getReplayFileName,
+  parseReplayJson,
+  resolveReplayLevel,
+  serializeReplay,
+} from './replayFile';
+export type { ReplayParseResult } from './replayFile';
+export { simulateReplay, verifyReplay } from './verifyReplay';
+export type { ReplaySimulation, ReplayVerification } from './verifyReplay';
+export { KEYFRAME_INTERVAL, buildReplayTimeline, getActionIndexAtTime, getPiecesAtIndex } from './replayTimeline';
+export type { ReplayKeyframe, ReplayTimeline } from './replayTimeline';
+export { createGhostRun, isBetterGhostRun, isGhostRunFor } from './ghostRun';
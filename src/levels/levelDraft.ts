@@ -0,0 +1,105 @@
+import type { LevelConfig, PieceConfig, ShapeType, Transform } from '../types';
+import { getSnapStep } from '../utils';
+
+// ===== 編輯器關卡草稿工具 =====
+
+// 新增碎片的預設尺寸
+export const DRAFT_PIECE_SIZE = 80;
+
+// 與 GameEngine 預設配色一致
+const DRAFT_COLORS = ['#e94560', '#0f3460', '#16c79a', '#f9a825', '#7b2cbf', '#00bcd4'];
+
+// 打散時的範圍（旋轉 5° 為單位、縮放 0.1 為單位，與控制列步長一致）
+const SCATTER_ROTATION_STEPS = 12;  // ±60°
+const SCATTER_SCALES = [0.8, 0.9, 1.0, 1.1, 1.2];
+const SCATTER_POSITION_STEP = 5;
+
+// 新碎片的中心對齊最小 snap 步長的格點（1px 模式 → 5px），只移動一個軸時另一軸仍在格點上
+const DRAFT_POSITION_STEP = getSnapStep(1);
+
+const IDENTITY_TRANSFORM: Omit<Transform, 'x' | 'y'> = { rotation: 0, scaleX: 1, scaleY: 1 };
+
+// 空白關卡
+export function createEmptyLevel(levelId = 1): LevelConfig {
+  return {
+    level_id: levelId,
+    level_type: 'image_match',
+    title: '',
+    allow_preview: true,
+    preview_image: `/assets/levels/level${levelId}/complete.png`,
+    text_hint: '',
+    canvas: {
+      width: 375,
+      height: 500,
+      background: '#1a1a2e',
+    },
+    win_threshold: 10,
+    pieces: [],
+  };
+}
+
+// 新碎片：ID 接續現有最大編號，起始與目標都放在畫布中央（最近的格點）
+export function createDraftPiece(type: ShapeType, config: LevelConfig): PieceConfig {
+  const maxIndex = config.pieces.reduce((max, piece) => {
+    const index = parseInt(piece.id.replace(/\D/g, ''), 10);
+    return Number.isNaN(index) ? max : Math.max(max, index);
+  }, 0);
+  const index = maxIndex + 1;
+  const center = {
+    x: Math.round(config.canvas.width / 2 / DRAFT_POSITION_STEP) * DRAFT_POSITION_STEP,
+    y: Math.round(config.canvas.height / 2 / DRAFT_POSITION_STEP) * DRAFT_POSITION_STEP,
+    ...IDENTITY_TRANSFORM,
+  };
+
+  return {
+    id: `p${index}`,
+    texture: `/assets/levels/level${config.level_id}/piece_${String(index).padStart(2, '0')}.png`,
+    shape: {
+      type,
+      width: DRAFT_PIECE_SIZE,
+      height: DRAFT_PIECE_SIZE,
+      color: DRAFT_COLORS[index % DRAFT_COLORS.length],
+    },
+    start_transform: { ...center },
+    target_transform: { ...center },
+  };
+}
+
+function pickInt(random: () => number, min: number, max: number): number {
+  return min + Math.floor(random() * (max - min + 1));
+}
+
+// 將碎片隨機打散為起始位置（保持在畫布內、對齊 5px 格線）
+export function scatterPieces(config: LevelConfig, random: () => number = Math.random): PieceConfig[] {
+  const { width, height } = config.canvas;
+
+  return config.pieces.map((piece) => {
+    const halfW = (piece.shape?.width ?? DRAFT_PIECE_SIZE) / 2;
+    const halfH = (piece.shape?.height ?? DRAFT_PIECE_SIZE) / 2;
+    const toGrid = (min: number, max: number) => {
+      const lo = Math.ceil(min / SCATTER_POSITION_STEP);
+      const hi = Math.max(lo, Math.floor(max / SCATTER_POSITION_STEP));
+      return pickInt(random, lo, hi) * SCATTER_POSITION_STEP;
+    };
+    const pickScale = () => SCATTER_SCALES[pickInt(random, 0, SCATTER_SCALES.length - 1)];
+
+    const scaleX = pickScale();
+    const scaleY = config.uniform_scale_only ? scaleX : pickScale();
+
+    return {
+      ...piece,
+      start_transform: {
+        x: toGrid(halfW, width - halfW),
+        y: toGrid(halfH, height - halfH),
+        rotation: pickInt(random, -SCATTER_ROTATION_STEPS, SCATTER_ROTATION_STEPS) * 5,
+        scaleX,
+        scaleY,
+      },
+    };
+  });
+}
+
+// 輸出為關卡 JSON（與 src/assets/levels 中的格式一致）
+export function serializeLevelConfig(config: LevelConfig): string {
+  return `${JSON.stringify(config, null, 2)}\n`;
+}
@@ -0,0 +1,152 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import type { ActionLog, LevelConfig } from '../types';
+import { evaluatePieces, runActionLogs } from '../simulation';
+import { useGameStore } from '../stores/gameStore';
+import {
+  buildReplayTimeline,
+  createReplayFile,
+  getPiecesAtIndex,
+  levelRegistry,
+  levelRegistryIssues,
+  parseReplayJson,
+  serializeReplay,
+  verifyReplay,
+} from './index';
+
+// ===== 腳本化通關 =====
+// 不需要畫面：以每個內建關卡的目標產生操作記錄，分別由模擬核心與 gameStore 重現，結果必須一致
+
+// 每個操作間隔（毫秒）
+const ACTION_INTERVAL = 1500;
+
+// 每個碎片依序拖曳、旋轉、縮放到目標（已對齊的面向不產生操作）
+function buildSolution(config: LevelConfig): ActionLog[] {
+  const logs: Omit<ActionLog, 'timestamp'>[] = [];
+  for (const { id: pieceId, start_transform: from, target_transform: to } of config.pieces) {
+    if (from.x !== to.x || from.y !== to.y) {
+      logs.push({ pieceId, type: 'drag', payload: { fromX: from.x, fromY: from.y, toX: to.x, toY: to.y } });
+    }
+    if (from.rotation !== to.rotation) {
+      logs.push({ pieceId, type: 'rotate', payload: { fromRotation: from.rotation, toRotation: to.rotation } });
+    }
+    if (from.scaleX !== to.scaleX || from.scaleY !== to.scaleY) {
+      logs.push({
+        pieceId,
+        type: 'scale',
+        payload: { fromScaleX: from.scaleX, fromScaleY: from.scaleY, toScaleX: to.scaleX, toScaleY: to.scaleY },
+      });
+    }
+  }
+  return logs.map((log, i) => ({ ...log, timestamp: (i + 1) * ACTION_INTERVAL }));
+}
+
+// 以 GameCanvas 的順序操作 gameStore：記錄操作 → 套用變換 → 檢查勝利
+function playInStore(config: LevelConfig, actionLogs: ActionLog[]) {
+  const store = useGameStore.getState();
+  store.loadLevel(config);
+  for (const log of actionLogs) {
+    if (useGameStore.getState().gameState !== 'PLAYING') break;
+    vi.setSystemTime(useGameStore.getState().gameStartTime + log.timestamp);
+    store.addActionLog({ pieceId: log.pieceId, type: log.type, payload: log.payload });
+    store.updatePieceTransform(log.pieceId, getTargetUpdate(log));
+    store.checkWinCondition();
+  }
+  return useGameStore.getState();
+}
+
+function getTargetUpdate({ payload }: ActionLog) {
+  return {
+    ...(payload.toX !== undefined ? { x: payload.toX } : {}),
+    ...(payload.toY !== undefined ? { y: payload.toY } : {}),
+    ...(payload.toRotation !== undefined ? { rotation: payload.toRotation } : {}),
+    ...(payload.toScaleX !== undefined ? { scaleX: payload.toScaleX } : {}),
+    ...(payload.toScaleY !== undefined ? { scaleY: payload.toScaleY } : {}),
+  };
+}
+
+beforeEach(() => {
+  vi.useFakeTimers();
+  localStorage.clear();
+  useGameStore.setState(useGameStore.getInitialState(), true);
+});
+
+afterEach(() => {
+  vi.useRealTimers();
+});
+
+describe('內建關卡', () => {
+  it('全部登錄且通過驗證', async () => {
+    expect(levelRegistryIssues).toEqual([]);
+    expect(levelRegistry.length).toBeGreaterThan(0);
+    for (const entry of levelRegistry) {
+      const result = await entry.load();
+      expect(result.ok ? [] : result.issues).toEqual([]);
+    }
+  });
+
+  it.each(levelRegistry.map((entry) => [entry.levelId, entry] as const))('Level %i 依操作記錄通關', async (_id, entry) => {
+    const result = await entry.load();
+    if (!result.ok) throw new Error(`${entry.file} 無法載入`);
+    const { config } = result;
+    const solution = buildSolution(config);
+
+    // 模擬核心：全部操作後完全對齊；第一次達到評級即過關（可能早於最後一個操作）
+    const simulation = runActionLogs(config, solution);
+    expect(evaluatePieces(simulation.pieces, config)).toEqual({ totalError: 0, rating: 'Perfect' });
+    expect(simulation.status).toBe('CLEARED');
+    expect(simulation.rating).not.toBeNull();
+    const actionLogs = solution.slice(0, (simulation.clearedAt ?? 0) + 1);
+
+    // gameStore：與模擬核心在同一個操作過關，2 秒後進入 WIN
+    const played = playInStore(config, solution);
+    expect(played.gameState).toBe('WINNING');
+    expect(played.actionLogs).toEqual(actionLogs);
+    expect(played.pieces).toEqual(runActionLogs(config, actionLogs).pieces);
+    expect(played.winRating).toBe(simulation.rating);
+    vi.advanceTimersByTime(2000);
+    expect(useGameStore.getState().gameState).toBe('WIN');
+
+    // 回放檔案：序列化後重新驗證，時間軸的最後一格即結束狀態
+    const replay = createReplayFile({
+      config,
+      actionLogs: played.actionLogs,
+      pieces: played.pieces,
+      snapSize: played.snapSize,
+      rating: played.winRating,
+      totalError: played.totalError,
+      embedLevel: false,
+    });
+    const parsed = parseReplayJson(serializeReplay(replay), 'replay.json');
+    if (!parsed.ok) throw new Error('回放檔案無法解析');
+    expect(verifyReplay(parsed.replay, config).issues).toEqual([]);
+
+    const timeline = buildReplayTimeline(config, played.actionLogs);
+    expect(getPiecesAtIndex(timeline, played.actionLogs.length - 1)).toEqual(played.pieces);
+  });
+});
+
+describe('竄改的回放', () => {
+  it('起點不符與宣稱的評級都列為問題', async () => {
+    const result = await levelRegistry[0].load();
+    if (!result.ok) throw new Error('Level 1 無法載入');
+    const { config } = result;
+    const actionLogs = buildSolution(config);
+    const simulation = runActionLogs(config, actionLogs);
+
+    const tampered = createReplayFile({
+      config,
+      actionLogs: [{ ...actionLogs[0], payload: { ...actionLogs[0].payload, fromX: -50 } }, ...actionLogs.slice(1, -1)],
+      pieces: simulation.pieces,
+      snapSize: 1,
+      rating: 'Perfect',
+      totalError: 0,
+      embedLevel: false,
+    });
+
+    const verification = verifyReplay(tampered, config);
+    expect(verification.ok).toBe(false);
+    expect(verification.issues.map((issue) => issue.path)).toEqual(
+      expect.arrayContaining(['actionLogs[0].payload', 'result.rating'])
+    );
+  });
+});
@@ -0,0 +1,72 @@
+import { validateLevelConfig } from './validateLevel';
+import type { LevelValidationIssue, LevelValidationResult } from './validateLevel';
+
+// ===== 關卡登錄表 =====
+// 自動探索 src/assets/levels/level<id>/config.json，每個關卡各自打包、需要時才載入
+// 資料夾編號即關卡順序，載入後會檢查與 config.json 中的 level_id 一致
+export interface LevelEntry {
+  levelId: number;
+  file: string;  // 專案內路徑，用於錯誤訊息
+  load: () => Promise<LevelValidationResult>;
+}
+
+const levelModules = import.meta.glob<unknown>('../assets/levels/*/config.json', { import: 'default' });
+
+const LEVEL_DIR_PATTERN = /\/level(\d+)\/config\.json$/;
+
+// glob 路徑（../assets/...）轉為專案路徑（src/assets/...）
+function toProjectPath(globPath: string): string {
+  return globPath.replace(/^\.\.\//, 'src/');
+}
+
+const entries: LevelEntry[] = [];
+const issues: LevelValidationIssue[] = [];
+
+for (const [globPath, importConfig] of Object.entries(levelModules)) {
+  const file = toProjectPath(globPath);
+  const match = globPath.match(LEVEL_DIR_PATTERN);
+
+  if (!match) {
+    issues.push({ file, path: '$', message: '關卡資料夾必須命名為 level<編號>，例如 level12' });
+    continue;
+  }
+
+  const levelId = Number(match[1]);
+  let cached: Promise<LevelValidationResult> | null = null;
+
+  entries.push({
+    levelId,
+    file,
+    load: () => {
+      cached ??= importConfig().then(
+        (data): LevelValidationResult => {
+          const result = validateLevelConfig(data, file);
+          if (result.ok && result.config.level_id !== levelId) {
+            return {
+              ok: false,
+              issues: [{
+                file,
+                path: 'level_id',
+                message: `必須與資料夾編號 ${levelId} 一致，實際為 ${result.config.level_id}`,
+              }],
+            };
+          }
+          return result;
+        },
+        (error: unknown): LevelValidationResult => {
+          // 下載失敗（例如網路中斷）不快取，下次呼叫時重新載入
+          cached = null;
+          const reason = error instanceof Error ? error.message : String(error);
+          return { ok: false, issues: [{ file, path: '$', message: `無法載入關卡：${reason}` }] };
+        }
+      );
+      return cached;
+    },
+  });
+}
+
+// 依關卡編號排序
+export const levelRegistry: LevelEntry[] = entries.sort((a, b) => a.levelId - b.levelId);
+
+// 無法登錄的關卡（資料夾命名錯誤）
+export const levelRegistryIssues: LevelValidationIssue[] = issues;
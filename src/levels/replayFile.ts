@@ -0,0 +1,249 @@
+import type {
+  ActionLog,
+  ActionType,
+  LevelConfig,
+  PieceState,
+  ReplayFile,
+  SnapSize,
+  WinRating,
+} from '../types';
+import { hashLevelConfig } from './customLevels';
+import { validateLevelConfig } from './validateLevel';
+import type { LevelValidationIssue, LevelValidationResult } from './validateLevel';
+import type { LevelEntry } from './registry';
+
+// ===== 回放檔案 =====
+// 操作記錄連同關卡、snap 設定與結果存成 JSON，可下載後在其他裝置或由其他玩家播放
+
+export const REPLAY_FORMAT = 'perfect-align-replay';
+// 格式變更時遞增，並在 parseReplayJson 中轉換舊版
+export const REPLAY_VERSION = 1;
+
+export type ReplayParseResult =
+  | { ok: true; replay: ReplayFile }
+  | { ok: false; issues: LevelValidationIssue[] };
+
+const ACTION_TYPES: ActionType[] = ['drag', 'fine_move', 'rotate', 'scale'];
+const DIRECTIONS = ['up', 'down', 'left', 'right'];
+const RATINGS: WinRating[] = ['Perfect', 'Great', 'Good', null];
+const SNAP_SIZES: SnapSize[] = [1, 5, 10];
+const TRANSFORM_KEYS = ['x', 'y', 'rotation', 'scaleX', 'scaleY'] as const;
+const PAYLOAD_NUMBER_KEYS = [
+  'fromX', 'fromY', 'toX', 'toY',
+  'fromRotation', 'toRotation',
+  'fromScaleX', 'fromScaleY', 'toScaleX', 'toScaleY',
+] as const;
+
+interface CreateReplayOptions {
+  config: LevelConfig;
+  actionLogs: ActionLog[];
+  pieces: PieceState[];  // 結束時的碎片狀態
+  snapSize: SnapSize;
+  rating: WinRating;
+  totalError: number;
+  embedLevel: boolean;   // 自訂/每日關卡需要內嵌設定，其他玩家才能播放
+}
+
+export function createReplayFile(options: CreateReplayOptions): ReplayFile {
+  const { config, actionLogs, pieces, snapSize, rating, totalError, embedLevel } = options;
+  return {
+    format: REPLAY_FORMAT,
+    version: REPLAY_VERSION,
+    level: {
+      id: config.level_id,
+      hash: hashLevelConfig(config),
+      ...(embedLevel ? { config } : {}),
+    },
+    actionLogs,
+    snapSize,
+    result: {
+      rating,
+      totalError,
+      actionCount: actionLogs.length,
+      durationMs: actionLogs.at(-1)?.timestamp ?? 0,
+      finalPieces: pieces.map(({ id, current }) => ({ id, current: { ...current } })),
+    },
+    createdAt: Date.now(),
+  };
+}
+
+export function serializeReplay(replay: ReplayFile): string {
+  return `${JSON.stringify(replay, null, 2)}\n`;
+}
+
+// 下載用檔名，例如 replay-level3-20261019.json
+export function getReplayFileName(replay: ReplayFile): string {
+  const date = new Date(replay.createdAt);
+  const stamp = `${date.getFullYear()}${String(date.getMonth() + 1).padStart(2, '0')}${String(date.getDate()).padStart(2, '0')}`;
+  return `replay-level${replay.level.id}-${stamp}.json`;
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function isFiniteNumber(value: unknown): value is number {
+  return typeof value === 'number' && Number.isFinite(value);
+}
+
+function describe(value: unknown): string {
+  if (value === undefined) return '缺少此欄位';
+  if (value === null) return 'null';
+  if (Array.isArray(value)) return 'array';
+  return `${typeof value} ${JSON.stringify(value)}`;
+}
+
+// ===== 解析回放檔案 =====
+// 只檢查結構；關卡內容與雜湊在 resolveReplayLevel 中確認
+export function parseReplayJson(text: string, file: string): ReplayParseResult {
+  const issues: LevelValidationIssue[] = [];
+  const report = (path: string, message: string) => issues.push({ file, path, message });
+
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch (error) {
+    const reason = error instanceof Error ? error.message : String(error);
+    return { ok: false, issues: [{ file, path: '$', message: `不是有效的 JSON：${reason}` }] };
+  }
+
+  if (!isRecord(data) || data.format !== REPLAY_FORMAT) {
+    return { ok: false, issues: [{ file, path: 'format', message: `不是回放檔案（format 必須是 ${REPLAY_FORMAT}）` }] };
+  }
+  if (!isFiniteNumber(data.version) || data.version < 1 || data.version > REPLAY_VERSION) {
+    return {
+      ok: false,
+      issues: [{ file, path: 'version', message: `不支援的版本 ${describe(data.version)}，目前支援 1 ~ ${REPLAY_VERSION}` }],
+    };
+  }
+
+  // 關卡
+  if (!isRecord(data.level)) {
+    report('level', `必須是物件，實際為 ${describe(data.level)}`);
+  } else {
+    if (!Number.isInteger(data.level.id)) report('level.id', `必須是整數，實際為 ${describe(data.level.id)}`);
+    if (typeof data.level.hash !== 'string') report('level.hash', `必須是字串，實際為 ${describe(data.level.hash)}`);
+    if (data.level.config !== undefined && !isRecord(data.level.config)) {
+      report('level.config', `必須是物件，實際為 ${describe(data.level.config)}`);
+    }
+  }
+
+  // 操作記錄
+  if (!Array.isArray(data.actionLogs)) {
+    report('actionLogs', `必須是陣列，實際為 ${describe(data.actionLogs)}`);
+  } else {
+    data.actionLogs.forEach((log: unknown, i) => {
+      const path = `actionLogs[${i}]`;
+      if (!isRecord(log)) {
+        report(path, `必須是物件，實際為 ${describe(log)}`);
+        return;
+      }
+      if (!isFiniteNumber(log.timestamp) || log.timestamp < 0) {
+        report(`${path}.timestamp`, `必須是非負數字，實際為 ${describe(log.timestamp)}`);
+      }
+      if (typeof log.pieceId !== 'string') report(`${path}.pieceId`, `必須是字串，實際為 ${describe(log.pieceId)}`);
+      if (!ACTION_TYPES.includes(log.type as ActionType)) {
+        report(`${path}.type`, `必須是 ${ACTION_TYPES.join(' / ')}，實際為 ${describe(log.type)}`);
+      }
+      if (!isRecord(log.payload)) {
+        report(`${path}.payload`, `必須是物件，實際為 ${describe(log.payload)}`);
+        return;
+      }
+      for (const key of PAYLOAD_NUMBER_KEYS) {
+        const value = log.payload[key];
+        if (value !== undefined && !isFiniteNumber(value)) {
+          report(`${path}.payload.${key}`, `必須是數字，實際為 ${describe(value)}`);
+        }
+      }
+      const direction = log.payload.direction;
+      if (direction !== undefined && !DIRECTIONS.includes(direction as string)) {
+        report(`${path}.payload.direction`, `必須是 ${DIRECTIONS.join(' / ')}，實際為 ${describe(direction)}`);
+      }
+    });
+  }
+
+  if (!SNAP_SIZES.includes(data.snapSize as SnapSize)) {
+    report('snapSize', `必須是 ${SNAP_SIZES.join(' / ')}，實際為 ${describe(data.snapSize)}`);
+  }
+
+  // 結果
+  if (!isRecord(data.result)) {
+    report('result', `必須是物件，實際為 ${describe(data.result)}`);
+  } else {
+    if (!RATINGS.includes(data.result.rating as WinRating)) {
+      report('result.rating', `必須是 Perfect / Great / Good / null，實際為 ${describe(data.result.rating)}`);
+    }
+    for (const key of ['totalError', 'actionCount', 'durationMs'] as const) {
+      if (!isFiniteNumber(data.result[key]) || (data.result[key] as number) < 0) {
+        report(`result.${key}`, `必須是非負數字，實際為 ${describe(data.result[key])}`);
+      }
+    }
+    const finalPieces = data.result.finalPieces;
+    if (finalPieces !== undefined) {
+      if (!Array.isArray(finalPieces)) {
+        report('result.finalPieces', `必須是陣列，實際為 ${describe(finalPieces)}`);
+      } else {
+        finalPieces.forEach((piece: unknown, i) => {
+          const path = `result.finalPieces[${i}]`;
+          if (!isRecord(piece) || typeof piece.id !== 'string' || !isRecord(piece.current)) {
+            report(path, `必須是 { id, current }，實際為 ${describe(piece)}`);
+            return;
+          }
+          for (const key of TRANSFORM_KEYS) {
+            if (!isFiniteNumber(piece.current[key])) {
+              report(`${path}.current.${key}`, `必須是數字，實際為 ${describe(piece.current[key])}`);
+            }
+          }
+        });
+      }
+    }
+  }
+
+  if (!isFiniteNumber(data.createdAt)) report('createdAt', `必須是數字，實際為 ${describe(data.createdAt)}`);
+
+  if (issues.length > 0) {
+    return { ok: false, issues };
+  }
+  return { ok: true, replay: data as unknown as ReplayFile };
+}
+
+// ===== 取得回放的關卡 =====
+// 內嵌設定直接驗證；否則從內建關卡載入。兩者都必須與錄製時的雜湊相同，且包含回放中操作的所有碎片
+export function resolveReplayLevel(
+  replay: ReplayFile,
+  entries: LevelEntry[],
+  file: string
+): Promise<LevelValidationResult> {
+  const { level } = replay;
+  const fail = (path: string, message: string): LevelValidationResult => ({
+    ok: false,
+    issues: [{ file, path, message }],
+  });
+
+  let load: Promise<LevelValidationResult>;
+  if (level.config) {
+    load = Promise.resolve(validateLevelConfig(level.config, file));
+  } else {
+    const entry = entries.find((candidate) => candidate.levelId === level.id);
+    if (!entry) return Promise.resolve(fail('level.id', `找不到內建關卡 ${level.id}，無法播放此回放`));
+    load = entry.load();
+  }
+
+  return load.then((result) => {
+    if (!result.ok) return result;
+
+    if (hashLevelConfig(result.config) !== level.hash) {
+      return level.config
+        ? fail('level.hash', '內嵌的關卡設定與雜湊不符，檔案可能已被修改')
+        : fail('level.hash', `內建關卡 ${level.id} 的內容已變更，無法重現此回放`);
+    }
+
+    const pieceIds = new Set(result.config.pieces.map((piece) => piece.id));
+    const issues = replay.actionLogs.flatMap((log, i) =>
+      pieceIds.has(log.pieceId)
+        ? []
+        : [{ file, path: `actionLogs[${i}].pieceId`, message: `關卡中沒有碎片 ${log.pieceId}` }]
+    );
+    return issues.length > 0 ? { ok: false, issues } : result;
+  });
+}
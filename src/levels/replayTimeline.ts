@@ -0,0 +1,61 @@
+import type { ActionLog, LevelConfig, PieceState } from '../types';
+import { createPieceStates } from '../utils';
+import { applyActionLog } from '../simulation';
+
+// ===== 回放時間軸 =====
+// 每隔固定數量的操作保存一次碎片狀態（關鍵影格），跳到任一位置時只需從最近的關鍵影格補算少量操作
+
+export interface ReplayKeyframe {
+  index: number;          // 套用到第幾個操作（-1 為起始狀態）
+  pieces: PieceState[];
+}
+
+export interface ReplayTimeline {
+  actionLogs: ActionLog[];
+  duration: number;       // 最後一個操作的時間（毫秒）
+  keyframes: ReplayKeyframe[];
+}
+
+// 關鍵影格間隔（操作數）：跳轉時最多補算這麼多個操作
+export const KEYFRAME_INTERVAL = 32;
+
+export function buildReplayTimeline(config: LevelConfig, actionLogs: ActionLog[]): ReplayTimeline {
+  let pieces = createPieceStates(config);
+  const keyframes: ReplayKeyframe[] = [{ index: -1, pieces }];
+
+  actionLogs.forEach((log, i) => {
+    pieces = applyActionLog(pieces, log);
+    if ((i + 1) % KEYFRAME_INTERVAL === 0) keyframes.push({ index: i, pieces });
+  });
+
+  return { actionLogs, duration: actionLogs.at(-1)?.timestamp ?? 0, keyframes };
+}
+
+// 套用前 index + 1 個操作後的碎片狀態（index 為 -1 時是起始狀態）
+export function getPiecesAtIndex(timeline: ReplayTimeline, index: number): PieceState[] {
+  const { actionLogs, keyframes } = timeline;
+  const clamped = Math.max(-1, Math.min(index, actionLogs.length - 1));
+  const keyframe = keyframes[Math.floor((clamped + 1) / KEYFRAME_INTERVAL)];
+
+  let pieces = keyframe.pieces;
+  for (let i = keyframe.index + 1; i <= clamped; i++) {
+    pieces = applyActionLog(pieces, actionLogs[i]);
+  }
+  return pieces;
+}
+
+// 指定時間點時最後一個已完成的操作索引（二分搜尋，尚無操作時為 -1）
+export function getActionIndexAtTime(timeline: ReplayTimeline, time: number): number {
+  const { actionLogs } = timeline;
+  let low = 0;
+  let high = actionLogs.length;
+  while (low < high) {
+    const mid = (low + high) >> 1;
+    if (actionLogs[mid].timestamp <= time) {
+      low = mid + 1;
+    } else {
+      high = mid;
+    }
+  }
+  return low - 1;
+}
@@ -0,0 +1,55 @@
+import { describe, expect, it } from 'vitest';
+import { solvePosition, solveRotation, solveScale } from './solveLevel';
+
+describe('solvePosition', () => {
+  it('已在目標時為 0', () => {
+    expect(solvePosition({ x: 103, y: 52 }, { x: 103, y: 52 })).toBe(0);
+  });
+
+  it('目標在格點上時拖曳一次', () => {
+    expect(solvePosition({ x: 103, y: 52 }, { x: 200, y: 260 })).toBe(1);
+  });
+
+  it('拖曳時移動不足半格的軸保持起始值', () => {
+    expect(solvePosition({ x: 103, y: 52 }, { x: 103, y: 100 })).toBe(1);
+    expect(solvePosition({ x: 103, y: 52 }, { x: 105, y: 52 })).toBe(1);
+  });
+
+  it('離開格點的目標以微調到達，必要時與拖曳組合', () => {
+    expect(solvePosition({ x: 103, y: 52 }, { x: 113, y: 62 })).toBe(2);
+    expect(solvePosition({ x: 103, y: 52 }, { x: 200, y: 62 })).toBe(2);
+    expect(solvePosition({ x: 103, y: 52 }, { x: 113, y: 52 })).toBe(1);
+  });
+
+  it('兩種方式都到不了時為 null', () => {
+    expect(solvePosition({ x: 103, y: 52 }, { x: 101, y: 52 })).toBeNull();
+    expect(solvePosition({ x: 103, y: 52 }, { x: 200, y: 61 })).toBeNull();
+  });
+});
+
+describe('solveRotation', () => {
+  it('差距為 5° 倍數時按住一次', () => {
+    expect(solveRotation(35, 0)).toBe(1);
+    expect(solveRotation(0, 0)).toBe(0);
+    expect(solveRotation(0, 3)).toBeNull();
+  });
+
+  it('對稱形狀可轉到任一等效角度', () => {
+    expect(solveRotation(0, 90, 90)).toBe(0);
+    expect(solveRotation(2, 74, 72)).toBe(0);
+  });
+});
+
+describe('solveScale', () => {
+  const shape = { width: 100, height: 50 };
+
+  it('等比縮放每步 0.1', () => {
+    expect(solveScale({ scaleX: 1, scaleY: 1 }, { scaleX: 1.5, scaleY: 1.5 }, shape, true)).toBe(1);
+    expect(solveScale({ scaleX: 1, scaleY: 1 }, { scaleX: 1.2, scaleY: 1 }, shape, true)).toBeNull();
+  });
+
+  it('允許單軸縮放時寬高各自調整', () => {
+    expect(solveScale({ scaleX: 1, scaleY: 1 }, { scaleX: 1.2, scaleY: 1 }, shape, false)).toBe(1);
+    expect(solveScale({ scaleX: 1, scaleY: 1 }, { scaleX: 1.2, scaleY: 1.4 }, shape, false)).toBe(2);
+  });
+});
@@ -0,0 +1,214 @@
+import type { LevelConfig, LevelPar, PieceConfig, Transform } from '../types';
+import { DEFAULT_PIECE_SIZE, getEquivalentAngleDelta, getShapeSymmetry } from '../utils';
+import {
+  ROTATION_STEP,
+  UNIFORM_SCALE_STEP,
+  clampScale,
+  getAxisScaleStep,
+  getSnapStep,
+  getStickySnapPosition,
+  normalizeAngle,
+} from '../simulation';
+
+// ===== 關卡求解器 =====
+// 不需要畫面：證明每個碎片的目標都能以控制列步長精確到達，並計算最少操作次數（par）
+// 操作次數與 actionLogs 相同：一次拖曳、或按住同一個控制鈕/按鍵（不論重複幾步）各算一次
+
+// 單一碎片可調整的三個面向
+export type SolveAspect = 'position' | 'rotation' | 'scale';
+
+export interface PieceSolution {
+  pieceId: string;
+  reachable: boolean;
+  // 各面向的最少操作次數，無法精確到達時為 null
+  actions: Record<SolveAspect, number | null>;
+  par: number | null;   // 三個面向的總和
+}
+
+export interface LevelSolution {
+  solvable: boolean;
+  par: number | null;   // 所有碎片的總和
+  pieces: PieceSolution[];
+}
+
+// 浮點比較容差（步長累加的誤差遠小於此值）
+const EPSILON = 1e-6;
+// 縮放搜尋的狀態上限（避免異常步長造成過大的搜尋空間）
+const MAX_SCALE_STATES = 100_000;
+
+// 位置的最小步長：拖曳吸附的格點與微調步長（1px 模式 → 5px）
+const POSITION_STEP = getSnapStep(1);
+
+function isMultipleOf(value: number, step: number): boolean {
+  const ratio = value / step;
+  return Math.abs(ratio - Math.round(ratio)) < EPSILON;
+}
+
+function isSame(a: number, b: number): boolean {
+  return Math.abs(a - b) < EPSILON;
+}
+
+// 單軸在一次拖曳中可停留的值（與 GameEngine 相同的吸附規則，兩軸各自判定）：
+// 直接拖到目標（移動不足半格時保持起始值），或先拖離再拖回（離開起始值後只會停在格點上）
+function getDragStops(start: number, target: number): number[] {
+  const snap = (last: number, raw: number) =>
+    getStickySnapPosition({ x: last, y: 0 }, { x: raw, y: 0 }, POSITION_STEP).x;
+  const away = target + (target >= start ? 2 : -2) * POSITION_STEP;
+  return [snap(start, target), snap(snap(start, away), target)];
+}
+
+// 位置：拖曳時每軸保持起始值或吸附到 5px 格點，微調則保留原本與格點的偏移（每軸一次）
+export function solvePosition(start: Pick<Transform, 'x' | 'y'>, target: Pick<Transform, 'x' | 'y'>): number | null {
+  const axes: [number, number][] = [[start.x, target.x], [start.y, target.y]];
+  const moving = axes.filter(([from, to]) => !isSame(from, to));
+  if (moving.length === 0) return 0;
+
+  const canDrag = ([from, to]: [number, number]) => getDragStops(from, to).some((stop) => isSame(stop, to));
+  const canFineMove = ([from, to]: [number, number]) => isMultipleOf(to - from, POSITION_STEP);
+
+  const candidates: number[] = [];
+  // 只用微調：每個需要移動的軸按住一次方向鍵
+  if (moving.every(canFineMove)) {
+    candidates.push(moving.length);
+  }
+  // 拖曳一次：拖曳到不了的軸保持起始值，之後再微調
+  if (moving.some(canDrag) && moving.every((axis) => canDrag(axis) || canFineMove(axis))) {
+    candidates.push(1 + moving.filter((axis) => !canDrag(axis)).length);
+  }
+  return candidates.length > 0 ? Math.min(...candidates) : null;
+}
+
+// 旋轉：每步 5°，按住一次即可轉到任意 5° 倍數的差距
+// symmetry 為形狀的旋轉對稱角度，轉到任一等效角度即可
+// 最近的等效角度不一定是 5° 的倍數（例如五角星 72°），因此逐一檢查每個等效角度
+export function solveRotation(start: number, target: number, symmetry = 360): number | null {
+  if (isSame(getEquivalentAngleDelta(target - start, symmetry), 0)) return 0;
+  const delta = normalizeAngle(target - start);
+  const count = symmetry === 0 ? 1 : Math.round(360 / symmetry);
+  for (let k = 0; k < count; k++) {
+    if (isMultipleOf(delta + k * symmetry, ROTATION_STEP)) return 1;
+  }
+  return null;
+}
+
+// 縮放：等比 ±0.1 與寬/高 ±10/邊長，每步都經過 clampScale
+// 以廣度優先搜尋計算最少「按住次數」；夾在上下限時會改變數值的格點，因此需要實際模擬
+export function solveScale(
+  start: Pick<Transform, 'scaleX' | 'scaleY'>,
+  target: Pick<Transform, 'scaleX' | 'scaleY'>,
+  shape: { width: number; height: number },
+  uniformScaleOnly: boolean
+): number | null {
+  const isTarget = (x: number, y: number) => isSame(x, target.scaleX) && isSame(y, target.scaleY);
+  if (isTarget(start.scaleX, start.scaleY)) return 0;
+
+  const widthStep = getAxisScaleStep(shape.width);
+  const heightStep = getAxisScaleStep(shape.height);
+  const controls: [number, number][] = [
+    [UNIFORM_SCALE_STEP, UNIFORM_SCALE_STEP],
+    [-UNIFORM_SCALE_STEP, -UNIFORM_SCALE_STEP],
+  ];
+  if (!uniformScaleOnly) {
+    controls.push([widthStep, 0], [-widthStep, 0], [0, heightStep], [0, -heightStep]);
+  }
+
+  // 兩軸量化後合成一個整數鍵（縮放 ≤ 2，量化後 < 2.1e6，乘積仍在安全整數範圍）
+  const toKey = (x: number, y: number) => Math.round(x / EPSILON) * 4_194_304 + Math.round(y / EPSILON);
+  const visited = new Set([toKey(start.scaleX, start.scaleY)]);
+  let frontier: [number, number][] = [[start.scaleX, start.scaleY]];
+
+  for (let actions = 1; frontier.length > 0; actions++) {
+    const next: [number, number][] = [];
+    for (const [x0, y0] of frontier) {
+      for (const [dx, dy] of controls) {
+        // 按住同一個控制鈕：沿同方向一直走到數值不再改變（被 clamp 擋住）
+        let x = x0;
+        let y = y0;
+        for (;;) {
+          const nx = clampScale(x + dx);
+          const ny = clampScale(y + dy);
+          if (isSame(nx, x) && isSame(ny, y)) break;
+          x = nx;
+          y = ny;
+          if (isTarget(x, y)) return actions;
+
+          const key = toKey(x, y);
+          if (!visited.has(key)) {
+            visited.add(key);
+            next.push([x, y]);
+          }
+        }
+      }
+    }
+    if (visited.size > MAX_SCALE_STATES) return null;
+    frontier = next;
+  }
+  return null;
+}
+
+export function solvePiece(piece: PieceConfig, uniformScaleOnly: boolean): PieceSolution {
+  const start = piece.start_transform;
+  const target = piece.target_transform;
+  const shape = {
+    width: piece.shape?.width ?? DEFAULT_PIECE_SIZE,
+    height: piece.shape?.height ?? DEFAULT_PIECE_SIZE,
+  };
+
+  const actions: Record<SolveAspect, number | null> = {
+    position: solvePosition(start, target),
+    rotation: solveRotation(start.rotation, target.rotation, getShapeSymmetry(piece.shape, target).rotation),
+    scale: solveScale(start, target, shape, uniformScaleOnly),
+  };
+  const counts = Object.values(actions);
+  const reachable = counts.every((count) => count !== null);
+
+  return {
+    pieceId: piece.id,
+    reachable,
+    actions,
+    par: reachable ? counts.reduce<number>((sum, count) => sum + (count ?? 0), 0) : null,
+  };
+}
+
+// 同一份關卡設定只計算一次（勝利畫面與驗證都會呼叫）
+const solutionCache = new WeakMap<LevelConfig, LevelSolution>();
+
+export function solveLevel(config: LevelConfig): LevelSolution {
+  const cached = solutionCache.get(config);
+  if (cached) return cached;
+
+  const uniformScaleOnly = config.uniform_scale_only ?? false;
+  const pieces = config.pieces.map((piece) => solvePiece(piece, uniformScaleOnly));
+  const solvable = pieces.every((piece) => piece.reachable);
+  const solution: LevelSolution = {
+    solvable,
+    par: solvable ? pieces.reduce((sum, piece) => sum + (piece.par ?? 0), 0) : null,
+    pieces,
+  };
+
+  solutionCache.set(config, solution);
+  return solution;
+}
+
+// 未宣告標準時間時：開場預覽約 5 秒，每個操作 4 秒
+const PAR_BASE_SECONDS = 5;
+const PAR_SECONDS_PER_ACTION = 4;
+
+export interface ResolvedLevelPar {
+  actions: number | null;   // 無宣告且無法求解時為 null
+  seconds: number | null;
+  pieces: { pieceId: string; par: number | null }[];
+}
+
+// 關卡的 par：優先使用 LevelConfig.par 宣告的值，否則使用求解結果
+export function getLevelPar(config: LevelConfig): ResolvedLevelPar {
+  const solution = solveLevel(config);
+  const declared: LevelPar = config.par ?? {};
+  const actions = declared.actions ?? solution.par;
+
+  return {
+    actions,
+    seconds: declared.seconds ?? (actions === null ? null : PAR_BASE_SECONDS + actions * PAR_SECONDS_PER_ACTION),
+    pieces: solution.pieces.map(({ pieceId, par }) => ({ pieceId, par })),
+  };
+}
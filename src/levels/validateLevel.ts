@@ -0,0 +1,260 @@
+import type { LevelConfig, ScoringMode, ShapeType } from '../types';
+import { MAX_SCALE, MIN_SCALE, ROTATION_STEP, getSnapStep } from '../utils';
+import { solvePiece } from './solveLevel';
+
+// ===== 驗證結果 =====
+export interface LevelValidationIssue {
+  file: string;     // 關卡檔案路徑
+  path: string;     // JSON 路徑，例如 pieces[2].target_transform.x
+  message: string;
+}
+
+export type LevelValidationResult =
+  | { ok: true; config: LevelConfig }
+  | { ok: false; issues: LevelValidationIssue[] };
+
+// 所有合法的形狀（以 Record 確保與 ShapeType 同步）
+const SHAPE_TYPES: Record<ShapeType, true> = {
+  rectangle: true,
+  circle: true,
+  triangle: true,
+  diamond: true,
+  pentagon: true,
+  hexagon: true,
+  octagon: true,
+  star: true,
+  heart: true,
+  cross: true,
+};
+
+const LEVEL_TYPES: LevelConfig['level_type'][] = ['image_match', 'text_hint'];
+const SCORING_MODES: ScoringMode[] = ['transform', 'iou'];
+const TRANSFORM_KEYS = ['x', 'y', 'rotation', 'scaleX', 'scaleY'] as const;
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function isFiniteNumber(value: unknown): value is number {
+  return typeof value === 'number' && Number.isFinite(value);
+}
+
+function describe(value: unknown): string {
+  if (value === undefined) return '缺少此欄位';
+  if (value === null) return 'null';
+  if (Array.isArray(value)) return 'array';
+  return `${typeof value} ${JSON.stringify(value)}`;
+}
+
+// ===== 驗證關卡設定 =====
+// 檢查型別、重複 ID、目標超出畫布、縮放超出 clampScale 範圍、未知形狀，最後以求解器確認目標可精確到達
+export function validateLevelConfig(data: unknown, file: string): LevelValidationResult {
+  const issues: LevelValidationIssue[] = [];
+  const report = (path: string, message: string) => issues.push({ file, path, message });
+
+  const expectNumber = (value: unknown, path: string, options: { min?: number; integer?: boolean } = {}) => {
+    if (!isFiniteNumber(value)) {
+      report(path, `必須是數字，實際為 ${describe(value)}`);
+      return false;
+    }
+    if (options.integer && !Number.isInteger(value)) {
+      report(path, `必須是整數，實際為 ${value}`);
+      return false;
+    }
+    if (options.min !== undefined && value < options.min) {
+      report(path, `必須大於等於 ${options.min}，實際為 ${value}`);
+      return false;
+    }
+    return true;
+  };
+
+  const expectString = (value: unknown, path: string, optional = false) => {
+    if (optional && value === undefined) return true;
+    if (typeof value !== 'string') {
+      report(path, `必須是字串，實際為 ${describe(value)}`);
+      return false;
+    }
+    return true;
+  };
+
+  const expectBoolean = (value: unknown, path: string, optional = false) => {
+    if (optional && value === undefined) return true;
+    if (typeof value !== 'boolean') {
+      report(path, `必須是布林值，實際為 ${describe(value)}`);
+      return false;
+    }
+    return true;
+  };
+
+  if (!isRecord(data)) {
+    report('$', `關卡設定必須是物件，實際為 ${describe(data)}`);
+    return { ok: false, issues };
+  }
+
+  expectNumber(data.level_id, 'level_id', { integer: true, min: 1 });
+  if (!LEVEL_TYPES.includes(data.level_type as LevelConfig['level_type'])) {
+    report('level_type', `必須是 ${LEVEL_TYPES.join(' / ')}，實際為 ${describe(data.level_type)}`);
+  }
+  expectString(data.title, 'title', true);
+  expectBoolean(data.uniform_scale_only, 'uniform_scale_only', true);
+  expectBoolean(data.allow_preview, 'allow_preview');
+  expectString(data.preview_image, 'preview_image');
+  expectString(data.text_hint, 'text_hint');
+
+  if (data.hint_steps !== undefined) {
+    if (!Array.isArray(data.hint_steps)) {
+      report('hint_steps', `必須是字串陣列，實際為 ${describe(data.hint_steps)}`);
+    } else {
+      data.hint_steps.forEach((step, i) => expectString(step, `hint_steps[${i}]`));
+    }
+  }
+
+  // 畫布
+  let canvasWidth: number | null = null;
+  let canvasHeight: number | null = null;
+  if (!isRecord(data.canvas)) {
+    report('canvas', `必須是物件，實際為 ${describe(data.canvas)}`);
+  } else {
+    if (expectNumber(data.canvas.width, 'canvas.width', { min: 1 })) canvasWidth = data.canvas.width as number;
+    if (expectNumber(data.canvas.height, 'canvas.height', { min: 1 })) canvasHeight = data.canvas.height as number;
+    expectString(data.canvas.background, 'canvas.background');
+  }
+
+  // 勝利門檻與評級區間
+  expectNumber(data.win_threshold, 'win_threshold', { min: 0 });
+  if (data.scoring !== undefined && !SCORING_MODES.includes(data.scoring as ScoringMode)) {
+    report('scoring', `必須是 ${SCORING_MODES.join(' / ')}，實際為 ${describe(data.scoring)}`);
+  }
+  if (data.rating_bands !== undefined) {
+    if (!isRecord(data.rating_bands)) {
+      report('rating_bands', `必須是物件，實際為 ${describe(data.rating_bands)}`);
+    } else {
+      for (const key of ['perfect', 'great', 'good'] as const) {
+        if (data.rating_bands[key] !== undefined) {
+          expectNumber(data.rating_bands[key], `rating_bands.${key}`, { min: 0 });
+        }
+      }
+    }
+  }
+
+  // 標準步數與時間
+  if (data.par !== undefined) {
+    if (!isRecord(data.par)) {
+      report('par', `必須是物件，實際為 ${describe(data.par)}`);
+    } else {
+      if (data.par.actions !== undefined) expectNumber(data.par.actions, 'par.actions', { integer: true, min: 0 });
+      if (data.par.seconds !== undefined) expectNumber(data.par.seconds, 'par.seconds', { min: 0 });
+    }
+  }
+
+  // 碎片
+  if (!Array.isArray(data.pieces) || data.pieces.length === 0) {
+    report('pieces', `必須是至少包含一個碎片的陣列，實際為 ${describe(data.pieces)}`);
+  } else {
+    const seenIds = new Map<string, number>();
+
+    data.pieces.forEach((piece, i) => {
+      const base = `pieces[${i}]`;
+      if (!isRecord(piece)) {
+        report(base, `必須是物件，實際為 ${describe(piece)}`);
+        return;
+      }
+
+      if (expectString(piece.id, `${base}.id`)) {
+        const id = piece.id as string;
+        if (id.length === 0) {
+          report(`${base}.id`, '不可為空字串');
+        } else if (seenIds.has(id)) {
+          report(`${base}.id`, `碎片 ID "${id}" 與 pieces[${seenIds.get(id)}] 重複`);
+        } else {
+          seenIds.set(id, i);
+        }
+      }
+      expectString(piece.texture, `${base}.texture`);
+
+      if (piece.shape !== undefined) {
+        if (!isRecord(piece.shape)) {
+          report(`${base}.shape`, `必須是物件，實際為 ${describe(piece.shape)}`);
+        } else {
+          const shape = piece.shape;
+          if (shape.type !== undefined && !(typeof shape.type === 'string' && Object.hasOwn(SHAPE_TYPES, shape.type))) {
+            report(
+              `${base}.shape.type`,
+              `未知的形狀 ${describe(shape.type)}，可用：${Object.keys(SHAPE_TYPES).join(', ')}`
+            );
+          }
+          expectNumber(shape.width, `${base}.shape.width`, { min: 1 });
+          expectNumber(shape.height, `${base}.shape.height`, { min: 1 });
+          if (shape.color !== undefined && !(typeof shape.color === 'string' && /^#[0-9a-fA-F]{6}$/.test(shape.color))) {
+            report(`${base}.shape.color`, `必須是 #RRGGBB 格式的顏色，實際為 ${describe(shape.color)}`);
+          }
+        }
+      }
+
+      for (const key of ['start_transform', 'target_transform'] as const) {
+        const transform = piece[key];
+        const path = `${base}.${key}`;
+        if (!isRecord(transform)) {
+          report(path, `必須是物件，實際為 ${describe(transform)}`);
+          continue;
+        }
+
+        for (const field of TRANSFORM_KEYS) {
+          expectNumber(transform[field], `${path}.${field}`);
+        }
+
+        const { rotation, scaleX, scaleY, x, y } = transform;
+        if (isFiniteNumber(rotation) && (rotation < -180 || rotation > 180)) {
+          report(`${path}.rotation`, `必須介於 -180 ~ 180，實際為 ${rotation}`);
+        }
+        for (const [field, scale] of [['scaleX', scaleX], ['scaleY', scaleY]] as const) {
+          if (isFiniteNumber(scale) && (scale < MIN_SCALE || scale > MAX_SCALE)) {
+            report(`${path}.${field}`, `必須介於 ${MIN_SCALE} ~ ${MAX_SCALE}（clampScale 範圍），實際為 ${scale}`);
+          }
+        }
+
+        // 目標位置必須在畫布內
+        if (key === 'target_transform') {
+          if (isFiniteNumber(x) && canvasWidth !== null && (x < 0 || x > canvasWidth)) {
+            report(`${path}.x`, `目標超出畫布寬度 0 ~ ${canvasWidth}，實際為 ${x}`);
+          }
+          if (isFiniteNumber(y) && canvasHeight !== null && (y < 0 || y > canvasHeight)) {
+            report(`${path}.y`, `目標超出畫布高度 0 ~ ${canvasHeight}，實際為 ${y}`);
+          }
+        }
+      }
+    });
+  }
+
+  if (issues.length > 0) {
+    return { ok: false, issues };
+  }
+
+  // 不使用 solveLevel 的快取：驗證的物件可能在之後被修改（例如編輯器草稿）
+  const config = data as unknown as LevelConfig;
+  config.pieces.forEach((piece, i) => {
+    const { actions } = solvePiece(piece, config.uniform_scale_only ?? false);
+    const { start_transform: start, target_transform: target } = piece;
+    const path = `pieces[${i}].target_transform`;
+    if (actions.position === null) {
+      report(
+        `${path}.x`,
+        `目標 (${target.x}, ${target.y}) 不在 ${getSnapStep(1)}px 格點上，也無法從起始 (${start.x}, ${start.y}) 微調到達`
+      );
+    }
+    if (actions.rotation === null) {
+      report(`${path}.rotation`, `無法從起始 ${start.rotation}° 以 ${ROTATION_STEP}° 步長精確轉到 ${target.rotation}°`);
+    }
+    if (actions.scale === null) {
+      report(
+        `${path}.scaleX`,
+        `無法從起始 (${start.scaleX}, ${start.scaleY}) 以控制列步長精確縮放到 (${target.scaleX}, ${target.scaleY})`
+      );
+    }
+  });
+
+  if (issues.length > 0) {
+    return { ok: false, issues };
+  }
+  return { ok: true, config };
+}
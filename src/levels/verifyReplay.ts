@@ -0,0 +1,108 @@
+import type { ActionLog, LevelConfig, PieceState, ReplayFile, Transform, WinRating } from '../types';
+import { createPieceStates, getActionTransforms } from '../utils';
+import { applyActionLog, evaluatePieces, runActionLogs } from '../simulation';
+import type { LevelValidationIssue } from './validateLevel';
+
+// ===== 回放驗證 =====
+// 不需要畫面：從起始位置依序套用操作（使用與 gameStore 相同的模擬核心），重新計算誤差與評級，
+// 並與回放檔案宣稱的結果比對，用於判斷本機排行榜的成績是否可信
+
+export interface ReplaySimulation {
+  pieces: PieceState[];       // 套用全部操作後的狀態
+  totalError: number;
+  rating: WinRating;
+  clearedAt: number | null;   // 第一次達到過關條件的操作索引，未過關為 null
+}
+
+export interface ReplayVerification extends ReplaySimulation {
+  ok: boolean;
+  issues: LevelValidationIssue[];
+}
+
+// 浮點比較容差（數值都經過 JSON 序列化，不會有累積誤差）
+const TOLERANCE = 1e-6;
+
+function isClose(a: number, b: number): boolean {
+  return Math.abs(a - b) <= TOLERANCE * Math.max(1, Math.abs(a), Math.abs(b));
+}
+
+// 從起始位置重播操作記錄；誤差與評級以最終狀態計算
+export function simulateReplay(config: LevelConfig, actionLogs: ActionLog[]): ReplaySimulation {
+  const { pieces, clearedAt } = runActionLogs(config, actionLogs);
+  return { pieces, clearedAt, ...evaluatePieces(pieces, config) };
+}
+
+// 重播並逐項比對；任何不一致都列為 issue
+export function verifyReplay(replay: ReplayFile, config: LevelConfig, file = 'replay'): ReplayVerification {
+  const issues: LevelValidationIssue[] = [];
+  const report = (path: string, message: string) => issues.push({ file, path, message });
+  const { actionLogs, result } = replay;
+
+  let pieces = createPieceStates(config);
+  let clearedAt: number | null = null;
+  let lastTimestamp = 0;
+
+  actionLogs.forEach((log, i) => {
+    const path = `actionLogs[${i}]`;
+    const piece = pieces.find((p) => p.id === log.pieceId);
+    if (!piece) {
+      report(`${path}.pieceId`, `關卡中沒有碎片 ${log.pieceId}`);
+      return;
+    }
+    if (clearedAt !== null) {
+      report(path, `第 ${clearedAt + 1} 個操作已過關，之後不應再有操作`);
+    }
+    if (log.timestamp < lastTimestamp) {
+      report(`${path}.timestamp`, `時間倒退（${log.timestamp} < ${lastTimestamp}）`);
+    }
+    lastTimestamp = Math.max(lastTimestamp, log.timestamp);
+
+    // 起點必須與重播到此的狀態相同，否則操作記錄被竄改或缺漏
+    const { from } = getActionTransforms(log);
+    for (const [key, value] of Object.entries(from) as [keyof Transform, number][]) {
+      if (!isClose(value, piece.current[key])) {
+        report(`${path}.payload`, `${log.pieceId} 的 ${key} 起點為 ${value}，重播狀態為 ${piece.current[key]}`);
+      }
+    }
+
+    pieces = applyActionLog(pieces, log);
+    if (clearedAt === null && evaluatePieces(pieces, config).rating) clearedAt = i;
+  });
+
+  const { totalError, rating } = evaluatePieces(pieces, config);
+
+  // 宣稱的結果
+  if (result.rating !== rating) {
+    report('result.rating', `宣稱 ${result.rating ?? '未過關'}，重新計算為 ${rating ?? '未過關'}`);
+  }
+  if (!isClose(result.totalError, totalError)) {
+    report('result.totalError', `宣稱 ${result.totalError}，重新計算為 ${totalError}`);
+  }
+  if (result.actionCount !== actionLogs.length) {
+    report('result.actionCount', `宣稱 ${result.actionCount}，實際有 ${actionLogs.length} 個操作`);
+  }
+  const duration = actionLogs.at(-1)?.timestamp ?? 0;
+  if (result.durationMs !== duration) {
+    report('result.durationMs', `宣稱 ${result.durationMs}，最後一個操作在 ${duration}`);
+  }
+
+  // 最終狀態
+  if (result.finalPieces) {
+    const claimed = new Map(result.finalPieces.map((p) => [p.id, p.current]));
+    pieces.forEach((piece) => {
+      const current = claimed.get(piece.id);
+      if (!current) {
+        report('result.finalPieces', `缺少碎片 ${piece.id}`);
+        return;
+      }
+      const mismatched = (Object.keys(piece.current) as (keyof Transform)[]).filter(
+        (key) => !isClose(current[key], piece.current[key])
+      );
+      if (mismatched.length > 0) {
+        report('result.finalPieces', `${piece.id} 的 ${mismatched.join('、')} 與重播結果不符`);
+      }
+    });
+  }
+
+  return { ok: issues.length === 0, issues, pieces, totalError, rating, clearedAt };
+}
@@ -0,0 +1,70 @@
+import type { ActionLog, Transform } from '../types';
+import { getActionTransforms, invertActionLog } from '../utils';
+
+// ===== 操作記錄與撤銷/重做 =====
+// actionLogs 完整保留所有操作（含撤銷產生的反向操作），撤銷/重做堆疊只包含有實際變化的操作
+
+export interface ActionHistory {
+  actionLogs: ActionLog[];
+  undoStack: ActionLog[];
+  redoStack: ActionLog[];
+}
+
+// 撤銷/重做的結果：要套用到碎片的變換與新的記錄
+export interface HistoryStep {
+  pieceId: string;
+  update: Partial<Transform>;
+  history: ActionHistory;
+}
+
+export const EMPTY_HISTORY: ActionHistory = { actionLogs: [], undoStack: [], redoStack: [] };
+
+// 操作前後數值完全相同（例如只點擊未拖曳）時不納入撤銷堆疊
+export function isNoopAction(log: Omit<ActionLog, 'timestamp'>): boolean {
+  const { from, to } = getActionTransforms(log);
+  return (Object.keys(to) as (keyof Transform)[]).every((key) => from[key] === to[key]);
+}
+
+// 寫入一筆操作；新操作會使重做歷史失效
+export function recordAction(history: ActionHistory, entry: ActionLog): ActionHistory {
+  const noop = isNoopAction(entry);
+  return {
+    actionLogs: [...history.actionLogs, entry],
+    undoStack: noop ? history.undoStack : [...history.undoStack, entry],
+    redoStack: noop ? history.redoStack : [],
+  };
+}
+
+// 撤銷上一個操作（套用 from* 值）；撤銷本身也寫入操作記錄（反向操作），確保回放完整
+export function undoAction(history: ActionHistory, timestamp: number): HistoryStep | null {
+  const log = history.undoStack.at(-1);
+  if (!log) return null;
+
+  const inverse: ActionLog = { ...invertActionLog(log), timestamp };
+  return {
+    pieceId: log.pieceId,
+    update: getActionTransforms(log).from,
+    history: {
+      actionLogs: [...history.actionLogs, inverse],
+      undoStack: history.undoStack.slice(0, -1),
+      redoStack: [...history.redoStack, log],
+    },
+  };
+}
+
+// 重做上一個被撤銷的操作（套用 to* 值）
+export function redoAction(history: ActionHistory, timestamp: number): HistoryStep | null {
+  const log = history.redoStack.at(-1);
+  if (!log) return null;
+
+  const entry: ActionLog = { ...log, timestamp };
+  return {
+    pieceId: log.pieceId,
+    update: getActionTransforms(log).to,
+    history: {
+      actionLogs: [...history.actionLogs, entry],
+      undoStack: [...history.undoStack, entry],
+      redoStack: history.redoStack.slice(0, -1),
+    },
+  };
+}
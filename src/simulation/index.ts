@@ -0,0 +1,33 @@
+export {
+  ALIGNMENT_TOLERANCE,
+  detectFeedback,
+  evaluatePieces,
+  getPieceAlignment,
+  getStickySnapPosition,
+  getWheelTransform,
+} from './rules';
+export type { PieceAlignment, WheelMode } from './rules';
+export { EMPTY_HISTORY, isNoopAction, recordAction, redoAction, undoAction } from './history';
+export type { ActionHistory, HistoryStep } from './history';
+export {
+  applyActionLog,
+  applyPieceUpdate,
+  createSimulation,
+  runActionLogs,
+  stepSimulation,
+} from './simulation';
+export type { SimulationAction, SimulationState, SimulationStatus } from './simulation';
+// 控制操作的步長與套用規則（定義於 utils，與模擬共用同一份實作）
+export {
+  MAX_SCALE,
+  MIN_SCALE,
+  ROTATION_STEP,
+  UNIFORM_SCALE_STEP,
+  applyTransformUpdate,
+  buildControlActionLog,
+  clampScale,
+  getAxisScaleStep,
+  getControlTransform,
+  getSnapStep,
+  normalizeAngle,
+} from '../utils';
@@ -0,0 +1,85 @@
+import type { FeedbackType, LevelConfig, PieceState, Transform, WinRating } from '../types';
+import {
+  ROTATION_STEP,
+  UNIFORM_SCALE_STEP,
+  calculateError,
+  clampScale,
+  getRatingBands,
+  getRotationDelta,
+  getWinRating,
+  normalizeAngle,
+} from '../utils';
+import type { Point } from '../utils';
+
+// ===== 對齊判定容差（視覺回饋） =====
+export const ALIGNMENT_TOLERANCE = {
+  rotation: 0.5,   // 角度容差
+  scale: 0.02,     // 縮放容差
+  position: 2,     // 位置容差（像素）
+};
+
+export interface PieceAlignment {
+  x: boolean;
+  y: boolean;
+  rotation: boolean;
+  scale: boolean;
+}
+
+// 各面向是否已對齊目標（對稱形狀以最近的等效角度判斷）
+export function getPieceAlignment(piece: Pick<PieceState, 'shape' | 'target'>, current: Transform): PieceAlignment {
+  const { target } = piece;
+  return {
+    x: Math.abs(current.x - target.x) < ALIGNMENT_TOLERANCE.position,
+    y: Math.abs(current.y - target.y) < ALIGNMENT_TOLERANCE.position,
+    rotation: Math.abs(getRotationDelta(piece.shape, current, target)) < ALIGNMENT_TOLERANCE.rotation,
+    scale:
+      Math.abs(current.scaleX - target.scaleX) < ALIGNMENT_TOLERANCE.scale &&
+      Math.abs(current.scaleY - target.scaleY) < ALIGNMENT_TOLERANCE.scale,
+  };
+}
+
+// 從 current 變為 next 時剛達到正確值的面向（優先級：位置 > 旋轉 > 縮放），沒有時為 null
+export function detectFeedback(piece: PieceState, next: Transform): FeedbackType {
+  const was = getPieceAlignment(piece, piece.current);
+  const is = getPieceAlignment(piece, next);
+  if (!was.x && is.x) return 'positionX';
+  if (!was.y && is.y) return 'positionY';
+  if (!was.rotation && is.rotation) return 'rotation';
+  if (!was.scale && is.scale) return 'scale';
+  return null;
+}
+
+// ===== 拖曳吸附（Sticky Snap） =====
+// 各軸離上次吸附點超過半個步長才跳到最近的格點，避免在格線附近來回抖動
+export function getStickySnapPosition(lastSnapped: Point, raw: Point, snapStep: number): Point {
+  if (snapStep <= 0) return { ...raw };
+
+  const threshold = snapStep / 2;
+  return {
+    x: Math.abs(raw.x - lastSnapped.x) >= threshold ? Math.round(raw.x / snapStep) * snapStep : lastSnapped.x,
+    y: Math.abs(raw.y - lastSnapped.y) >= threshold ? Math.round(raw.y / snapStep) * snapStep : lastSnapped.y,
+  };
+}
+
+// ===== 滾輪操作 =====
+// Shift + 滾輪旋轉 ±5°，Ctrl/Cmd + 滾輪等比縮放 ±0.1
+export type WheelMode = 'rotate' | 'scale';
+
+export function getWheelTransform(
+  current: Pick<Transform, 'rotation' | 'scaleX' | 'scaleY'>,
+  direction: 1 | -1, mode: WheelMode): Partial<Transform> {
+  if (mode === 'rotate') {
+    return { rotation: normalizeAngle(current.rotation + direction * ROTATION_STEP) };
+  }
+  return {
+    scaleX: clampScale(current.scaleX + direction * UNIFORM_SCALE_STEP),
+    scaleY: clampScale(current.scaleY + direction * UNIFORM_SCALE_STEP),
+  };
+}
+
+// ===== 勝利判定 =====
+// 依關卡計分方式計算總誤差，評級為 null 表示尚未過關
+export function evaluatePieces(pieces: PieceState[], config: LevelConfig): { totalError: number; rating: WinRating } {
+  const totalError = calculateError(pieces, config.scoring);
+  return { totalError, rating: getWinRating(totalError, getRatingBands(config)) };
+}
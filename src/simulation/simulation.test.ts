@@ -0,0 +1,171 @@
+import { describe, expect, it } from 'vitest';
+import type { ActionLog, LevelConfig } from '../types';
+import {
+  applyActionLog,
+  createSimulation,
+  detectFeedback,
+  getStickySnapPosition,
+  getWheelTransform,
+  runActionLogs,
+  stepSimulation,
+} from './index';
+
+const config: LevelConfig = {
+  level_id: 1,
+  level_type: 'image_match',
+  allow_preview: false,
+  preview_image: '',
+  text_hint: '',
+  canvas: { width: 375, height: 500, background: '#000' },
+  win_threshold: 15,
+  pieces: [
+    {
+      id: 'p1',
+      texture: '',
+      shape: { width: 100, height: 100 },
+      start_transform: { x: 100, y: 140, rotation: 35, scaleX: 1, scaleY: 1 },
+      target_transform: { x: 200, y: 260, rotation: 0, scaleX: 1, scaleY: 1 },
+    },
+    {
+      id: 'p2',
+      texture: '',
+      shape: { type: 'circle', width: 80, height: 80 },
+      start_transform: { x: 250, y: 350, rotation: 0, scaleX: 1, scaleY: 1 },
+      target_transform: { x: 250, y: 350, rotation: 0, scaleX: 1.5, scaleY: 1.5 },
+    },
+  ],
+};
+
+const drag: ActionLog = {
+  timestamp: 1000,
+  pieceId: 'p1',
+  type: 'drag',
+  payload: { fromX: 100, fromY: 140, toX: 200, toY: 260 },
+};
+const rotate: ActionLog = {
+  timestamp: 2000,
+  pieceId: 'p1',
+  type: 'rotate',
+  payload: { fromRotation: 35, toRotation: 0 },
+};
+const scale: ActionLog = {
+  timestamp: 3000,
+  pieceId: 'p2',
+  type: 'scale',
+  payload: { fromScaleX: 1, fromScaleY: 1, toScaleX: 1.5, toScaleY: 1.5 },
+};
+
+describe('applyActionLog', () => {
+  const { pieces } = createSimulation(config);
+
+  it('套用 to* 值，只改變對應的碎片', () => {
+    const next = applyActionLog(pieces, drag);
+    expect(next[0].current).toEqual({ x: 200, y: 260, rotation: 35, scaleX: 1, scaleY: 1 });
+    expect(next[1]).toBe(pieces[1]);
+    expect(pieces[0].current.x).toBe(100);
+  });
+
+  it('與遊戲相同地正規化角度、夾限縮放', () => {
+    const turned = applyActionLog(pieces, { ...rotate, payload: { fromRotation: 35, toRotation: 200 } });
+    expect(turned[0].current.rotation).toBe(-160);
+
+    const scaled = applyActionLog(pieces, { ...scale, payload: { toScaleX: 3, toScaleY: 0.1 } });
+    expect(scaled[1].current).toMatchObject({ scaleX: 2, scaleY: 0.5 });
+  });
+
+  it('找不到碎片時不改變狀態', () => {
+    const next = applyActionLog(pieces, { ...drag, pieceId: 'missing' });
+    expect(next.map((p) => p.current)).toEqual(pieces.map((p) => p.current));
+  });
+});
+
+describe('stepSimulation', () => {
+  it('所有碎片對齊後過關，之後不再改變結果', () => {
+    let state = runActionLogs(config, [drag, rotate]);
+    expect(state.status).toBe('PLAYING');
+    expect(state.rating).toBeNull();
+
+    state = stepSimulation(state, { type: 'action', log: scale });
+    expect(state).toMatchObject({ status: 'CLEARED', rating: 'Perfect', totalError: 0, clearedAt: 2 });
+
+    const moved = stepSimulation(state, { type: 'update', pieceId: 'p1', update: { x: 0 } });
+    expect(stepSimulation(moved, { type: 'check' })).toMatchObject({ status: 'CLEARED', rating: 'Perfect', totalError: 0 });
+  });
+
+  it('update 不判定勝利，寫入操作記錄後以 check 判定', () => {
+    let state = runActionLogs(config, [drag, rotate]);
+    state = stepSimulation(state, { type: 'update', pieceId: 'p2', update: { scaleX: 1.5, scaleY: 1.5 } });
+    expect(state.status).toBe('PLAYING');
+
+    state = stepSimulation(state, { type: 'record', log: scale });
+    state = stepSimulation(state, { type: 'check' });
+    expect(state).toMatchObject({ status: 'CLEARED', rating: 'Perfect', clearedAt: 2 });
+  });
+
+  it('撤銷寫入反向操作，重做恢復原操作', () => {
+    const played = runActionLogs(config, [drag]);
+
+    const undone = stepSimulation(played, { type: 'undo', timestamp: 1500 });
+    expect(undone.pieces[0].current).toMatchObject({ x: 100, y: 140 });
+    expect(undone.actionLogs.at(-1)).toEqual({
+      timestamp: 1500,
+      pieceId: 'p1',
+      type: 'drag',
+      payload: { fromX: 200, fromY: 260, toX: 100, toY: 140 },
+    });
+    expect(undone.undoStack).toHaveLength(0);
+    expect(undone.redoStack).toEqual([drag]);
+
+    const redone = stepSimulation(undone, { type: 'redo', timestamp: 1800 });
+    expect(redone.pieces[0].current).toMatchObject({ x: 200, y: 260 });
+    expect(redone.actionLogs).toHaveLength(3);
+    expect(redone.undoStack).toEqual([{ ...drag, timestamp: 1800 }]);
+    expect(redone.redoStack).toHaveLength(0);
+  });
+
+  it('沒有可撤銷的操作或已過關時撤銷無效', () => {
+    const initial = createSimulation(config);
+    expect(stepSimulation(initial, { type: 'undo', timestamp: 0 })).toBe(initial);
+
+    const cleared = runActionLogs(config, [drag, rotate, scale]);
+    expect(stepSimulation(cleared, { type: 'undo', timestamp: 4000 })).toBe(cleared);
+  });
+
+  it('新操作清除重做堆疊，無變化的操作不進入撤銷堆疊', () => {
+    const undone = stepSimulation(runActionLogs(config, [drag]), { type: 'undo', timestamp: 1500 });
+    const noop: ActionLog = { ...rotate, payload: { fromRotation: 35, toRotation: 35 } };
+
+    const afterNoop = stepSimulation(undone, { type: 'action', log: noop });
+    expect(afterNoop.redoStack).toHaveLength(1);
+    expect(afterNoop.undoStack).toHaveLength(0);
+
+    const afterRotate = stepSimulation(undone, { type: 'action', log: rotate });
+    expect(afterRotate.redoStack).toHaveLength(0);
+    expect(afterRotate.undoStack).toEqual([rotate]);
+  });
+});
+
+describe('rules', () => {
+  it('detectFeedback 依位置 > 旋轉 > 縮放的優先級回報剛對齊的面向', () => {
+    const [piece] = createSimulation(config).pieces;
+    expect(detectFeedback(piece, { ...piece.current, x: 200 })).toBe('positionX');
+    expect(detectFeedback(piece, { ...piece.current, y: 259 })).toBe('positionY');
+    expect(detectFeedback(piece, { ...piece.current, x: 200, rotation: 0 })).toBe('positionX');
+    expect(detectFeedback(piece, { ...piece.current, rotation: 0.4 })).toBe('rotation');
+    expect(detectFeedback(piece, { ...piece.current, rotation: 90 })).toBe('rotation');
+    expect(detectFeedback(piece, { ...piece.current, x: 150 })).toBeNull();
+  });
+
+  it('getStickySnapPosition 超過半個步長才跳到下一個格點', () => {
+    expect(getStickySnapPosition({ x: 10, y: 10 }, { x: 12.4, y: 7.6 }, 5)).toEqual({ x: 10, y: 10 });
+    expect(getStickySnapPosition({ x: 10, y: 10 }, { x: 12.5, y: 3 }, 5)).toEqual({ x: 15, y: 5 });
+    expect(getStickySnapPosition({ x: 10, y: 10 }, { x: 12.3, y: 4 }, 0)).toEqual({ x: 12.3, y: 4 });
+  });
+
+  it('getWheelTransform 旋轉 ±5°、等比縮放 ±0.1', () => {
+    const current = { rotation: 178, scaleX: 1.95, scaleY: 1 };
+    expect(getWheelTransform(current, 1, 'rotate')).toEqual({ rotation: -177 });
+    expect(getWheelTransform(current, 1, 'scale')).toEqual({ scaleX: 2, scaleY: 1.1 });
+    expect(getWheelTransform({ ...current, scaleX: 0.5 }, -1, 'scale')).toMatchObject({ scaleX: 0.5 });
+  });
+});
@@ -0,0 +1,108 @@
+import type { ActionLog, LevelConfig, PieceState, Transform, WinRating } from '../types';
+import { applyTransformUpdate, createPieceStates, getActionTransforms } from '../utils';
+import { EMPTY_HISTORY, recordAction, redoAction, undoAction } from './history';
+import type { ActionHistory } from './history';
+import { evaluatePieces } from './rules';
+
+// ===== 無畫面的遊戲模擬 =====
+// 套用變換、操作記錄、撤銷/重做與勝利判定的唯一實作，不依賴 Pixi、React 或 window；
+// gameStore 的每個操作都經過 stepSimulation，回放、驗證與測試也以此重現一局
+
+export type SimulationStatus = 'PLAYING' | 'CLEARED';
+
+export interface SimulationState extends ActionHistory {
+  config: LevelConfig;
+  pieces: PieceState[];
+  status: SimulationStatus;
+  totalError: number;         // 過關後停在過關當下的值
+  rating: WinRating;
+  clearedAt: number | null;   // 過關時最後一筆操作記錄的索引，未過關為 null
+}
+
+export type SimulationAction =
+  // 套用變換，不判定勝利（拖曳放開、長按控制鈕的每一步）
+  | { type: 'update'; pieceId: string; update: Partial<Transform> }
+  // 寫入一筆操作記錄，不改變碎片（長按結束時補記整段操作）
+  | { type: 'record'; log: ActionLog }
+  // 判定勝利：操作已寫入記錄並套用後才判定，過關時的記錄包含最後一個操作
+  | { type: 'check' }
+  // 寫入操作記錄並套用其結果（回放與腳本化測試）
+  | { type: 'action'; log: ActionLog }
+  | { type: 'undo'; timestamp: number }
+  | { type: 'redo'; timestamp: number };
+
+export function createSimulation(config: LevelConfig): SimulationState {
+  const pieces = createPieceStates(config);
+  return {
+    config,
+    pieces,
+    ...EMPTY_HISTORY,
+    status: 'PLAYING',
+    totalError: 0,
+    rating: null,
+    clearedAt: null,
+  };
+}
+
+// 套用單一操作（與撤銷/重做相同，使用 to* 值）
+export function applyActionLog(pieces: PieceState[], log: Pick<ActionLog, 'pieceId' | 'type' | 'payload'>): PieceState[] {
+  return applyPieceUpdate(pieces, log.pieceId, getActionTransforms(log).to);
+}
+
+export function applyPieceUpdate(pieces: PieceState[], pieceId: string, update: Partial<Transform>): PieceState[] {
+  return pieces.map((piece) =>
+    piece.id === pieceId ? { ...piece, current: applyTransformUpdate(piece.current, update) } : piece
+  );
+}
+
+// 勝利判定：已過關時不重複判定
+function checkWin(state: SimulationState): SimulationState {
+  if (state.status === 'CLEARED') return state;
+
+  const { totalError, rating } = evaluatePieces(state.pieces, state.config);
+  if (!rating) return { ...state, totalError };
+  return { ...state, totalError, rating, status: 'CLEARED', clearedAt: state.actionLogs.length - 1 };
+}
+
+function withHistory(state: SimulationState, history: ActionHistory): SimulationState {
+  return { ...state, ...history };
+}
+
+export function stepSimulation(state: SimulationState, action: SimulationAction): SimulationState {
+  switch (action.type) {
+    case 'update':
+      return { ...state, pieces: applyPieceUpdate(state.pieces, action.pieceId, action.update) };
+
+    case 'record':
+      return withHistory(state, recordAction(state, action.log));
+
+    case 'check':
+      return checkWin(state);
+
+    case 'action':
+      return checkWin({
+        ...withHistory(state, recordAction(state, action.log)),
+        pieces: applyActionLog(state.pieces, action.log),
+      });
+
+    case 'undo':
+    case 'redo': {
+      // 過關後不能再撤銷/重做
+      if (state.status !== 'PLAYING') return state;
+      const step = action.type === 'undo' ? undoAction(state, action.timestamp) : redoAction(state, action.timestamp);
+      if (!step) return state;
+      return checkWin({
+        ...withHistory(state, step.history),
+        pieces: applyPieceUpdate(state.pieces, step.pieceId, step.update),
+      });
+    }
+  }
+}
+
+// 從起始位置依序重現操作記錄
+export function runActionLogs(config: LevelConfig, actionLogs: ActionLog[]): SimulationState {
+  return actionLogs.reduce(
+    (state, log) => stepSimulation(state, { type: 'action', log }),
+    createSimulation(config)
+  );
+}
@@ -0,0 +1,128 @@
+import { create } from 'zustand';
+import { createJSONStorage, persist } from 'zustand/middleware';
+import type { EditorStoreState, LevelConfig, PieceConfig, SnapSize } from '../types';
+import { clampScale, normalizeAngle } from '../utils';
+import { DRAFT_PIECE_SIZE, createDraftPiece, createEmptyLevel, scatterPieces } from '../levels';
+
+// 編輯中的草稿另存一份，避免重新整理後遺失
+export const EDITOR_STORAGE_KEY = 'perfect-align-editor';
+
+type PersistedEditorState = Pick<EditorStoreState, 'draft' | 'snapSize'>;
+
+const SNAP_SIZES: SnapSize[] = [1, 5, 10];
+
+// 草稿至少要有畫布與碎片陣列，編輯器才能顯示
+function isUsableDraft(value: unknown): value is LevelConfig {
+  if (typeof value !== 'object' || value === null) return false;
+  const draft = value as Partial<LevelConfig>;
+  return (
+    Array.isArray(draft.pieces) &&
+    typeof draft.canvas === 'object' && draft.canvas !== null &&
+    Number.isFinite(draft.canvas.width) && Number.isFinite(draft.canvas.height)
+  );
+}
+
+// 更新單一碎片
+function mapPiece(draft: LevelConfig, id: string, update: (piece: PieceConfig) => PieceConfig): LevelConfig {
+  return {
+    ...draft,
+    pieces: draft.pieces.map((piece) => (piece.id === id ? update(piece) : piece)),
+  };
+}
+
+export const useEditorStore = create<EditorStoreState>()(persist((set, get) => ({
+  // 初始狀態
+  draft: createEmptyLevel(),
+  mode: 'target',
+  selectedPieceId: null,
+  snapSize: 1,
+
+  // 以現有關卡為底稿
+  loadDraft: (config: LevelConfig) => {
+    set({ draft: structuredClone(config), mode: 'target', selectedPieceId: null });
+  },
+
+  resetDraft: () => {
+    set({ draft: createEmptyLevel(), mode: 'target', selectedPieceId: null });
+  },
+
+  updateMeta: (meta) => {
+    set({ draft: { ...get().draft, ...meta } });
+  },
+
+  setMode: (mode) => {
+    set({ mode });
+  },
+
+  setSnapSize: (size: SnapSize) => {
+    set({ snapSize: size });
+  },
+
+  selectPiece: (id) => {
+    set({ selectedPieceId: id });
+  },
+
+  addPiece: (type) => {
+    const { draft } = get();
+    const piece = createDraftPiece(type, draft);
+    set({
+      draft: { ...draft, pieces: [...draft.pieces, piece] },
+      selectedPieceId: piece.id,
+    });
+  },
+
+  removePiece: (id) => {
+    const { draft, selectedPieceId } = get();
+    set({
+      draft: { ...draft, pieces: draft.pieces.filter((piece) => piece.id !== id) },
+      selectedPieceId: selectedPieceId === id ? null : selectedPieceId,
+    });
+  },
+
+  updatePieceShape: (id, shape) => {
+    set({
+      draft: mapPiece(get().draft, id, (piece) => ({
+        ...piece,
+        shape: { width: DRAFT_PIECE_SIZE, height: DRAFT_PIECE_SIZE, ...piece.shape, ...shape },
+      })),
+    });
+  },
+
+  updatePieceTransform: (id, transform) => {
+    const { draft, mode } = get();
+    const key = mode === 'target' ? 'target_transform' : 'start_transform';
+
+    set({
+      draft: mapPiece(draft, id, (piece) => {
+        const next = { ...piece[key], ...transform };
+        next.rotation = normalizeAngle(next.rotation);
+        next.scaleX = clampScale(next.scaleX);
+        next.scaleY = clampScale(next.scaleY);
+        return { ...piece, [key]: next };
+      }),
+    });
+  },
+
+  scatterStartTransforms: () => {
+    const { draft } = get();
+    set({ draft: { ...draft, pieces: scatterPieces(draft) }, mode: 'start' });
+  },
+}), {
+  name: EDITOR_STORAGE_KEY,
+  version: 1,
+  storage: createJSONStorage(() => localStorage),
+  partialize: (state): PersistedEditorState => ({
+    draft: state.draft,
+    snapSize: state.snapSize,
+  }),
+  // 未完成的草稿本來就可能驗證失敗，只在結構損壞時改用空白關卡
+  merge: (persistedState, currentState) => {
+    const saved = (persistedState ?? {}) as Partial<PersistedEditorState>;
+
+    return {
+      ...currentState,
+      draft: isUsableDraft(saved.draft) ? saved.draft : currentState.draft,
+      snapSize: SNAP_SIZES.includes(saved.snapSize as SnapSize) ? (saved.snapSize as SnapSize) : currentState.snapSize,
+    };
+  },
+}));
@@ -0,0 +1,332 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import type { LevelConfig } from '../types';
+import { hashLevelConfig } from '../levels';
+import { useGameStore } from './gameStore';
+
+const config: LevelConfig = {
+  level_id: 3,
+  level_type: 'image_match',
+  allow_preview: false,
+  preview_image: '',
+  text_hint: '',
+  canvas: { width: 375, height: 500, background: '#000' },
+  win_threshold: 15,
+  pieces: [
+    {
+      id: 'p1',
+      texture: '',
+      shape: { width: 100, height: 100 },
+      start_transform: { x: 100, y: 140, rotation: 35, scaleX: 1, scaleY: 1 },
+      target_transform: { x: 200, y: 260, rotation: 0, scaleX: 1, scaleY: 1 },
+    },
+  ],
+};
+
+const NOW = new Date('2026-01-01T00:00:00Z').getTime();
+
+beforeEach(() => {
+  vi.useFakeTimers();
+  vi.setSystemTime(NOW);
+  localStorage.clear();
+  useGameStore.setState(useGameStore.getInitialState(), true);
+});
+
+afterEach(() => {
+  vi.useRealTimers();
+});
+
+// 與 GameCanvas 相同的順序：先記錄操作，再套用變換並檢查勝利
+function dragTo(x: number, y: number) {
+  const { pieces, addActionLog, updatePieceTransform, checkWinCondition } = useGameStore.getState();
+  const { current } = pieces[0];
+  addActionLog({ pieceId: 'p1', type: 'drag', payload: { fromX: current.x, fromY: current.y, toX: x, toY: y } });
+  updatePieceTransform('p1', { x, y });
+  checkWinCondition();
+}
+
+function rotateTo(rotation: number) {
+  const { pieces, addActionLog, updatePieceTransform, checkWinCondition } = useGameStore.getState();
+  addActionLog({ pieceId: 'p1', type: 'rotate', payload: { fromRotation: pieces[0].current.rotation, toRotation: rotation } });
+  updatePieceTransform('p1', { rotation });
+  checkWinCondition();
+}
+
+// 與 TransformControls 相同：按住時每 100ms 只套用變換，達到過關條件時先補記整段操作再檢查勝利
+function holdRotateTo(rotation: number) {
+  const { pieces, addActionLog, updatePieceTransform, checkWinCondition } = useGameStore.getState();
+  const from = pieces[0].current.rotation;
+  for (let current = from; current !== rotation; current += Math.sign(rotation - from) * 5) {
+    vi.advanceTimersByTime(100);
+    updatePieceTransform('p1', { rotation: current + Math.sign(rotation - from) * 5 });
+    expect(useGameStore.getState().gameState).toBe('PLAYING');
+  }
+  addActionLog({ pieceId: 'p1', type: 'rotate', payload: { fromRotation: from, toRotation: rotation } });
+  checkWinCondition();
+}
+
+describe('loadLevel', () => {
+  it('從起始位置開始新的一局', () => {
+    useGameStore.setState({ gameState: 'WIN', winRating: 'Good', actionLogs: [], selectedPieceId: 'p1' });
+    useGameStore.getState().loadLevel(config);
+
+    const state = useGameStore.getState();
+    expect(state.gameState).toBe('PLAYING');
+    expect(state.levelConfig).toBe(config);
+    expect(state.pieces).toEqual([
+      {
+        id: 'p1',
+        texture: '',
+        shape: { width: 100, height: 100 },
+        current: config.pieces[0].start_transform,
+        target: config.pieces[0].target_transform,
+      },
+    ]);
+    expect(state.pieces[0].current).not.toBe(config.pieces[0].start_transform);
+    expect(state).toMatchObject({
+      gameStartTime: NOW,
+      actionLogs: [],
+      undoStack: [],
+      redoStack: [],
+      selectedPieceId: null,
+      winRating: null,
+      isCustomLevel: false,
+      dailyDate: null,
+    });
+  });
+
+  it('記錄自訂關卡與每日挑戰的來源', () => {
+    useGameStore.getState().loadLevel(config, { custom: true, dailyDate: '2026-01-01' });
+    expect(useGameStore.getState()).toMatchObject({ isCustomLevel: true, dailyDate: '2026-01-01' });
+  });
+});
+
+describe('updatePieceTransform', () => {
+  beforeEach(() => {
+    useGameStore.getState().loadLevel(config);
+  });
+
+  it('剛對齊位置時觸發回饋，1.5 秒後清除', () => {
+    useGameStore.getState().updatePieceTransform('p1', { x: 201 });
+
+    expect(useGameStore.getState()).toMatchObject({
+      activeFeedback: 'positionX',
+      feedbackPieceId: 'p1',
+      feedbackTargetPos: { x: 200, y: 260 },
+    });
+
+    vi.advanceTimersByTime(1499);
+    expect(useGameStore.getState().activeFeedback).toBe('positionX');
+    vi.advanceTimersByTime(1);
+    expect(useGameStore.getState()).toMatchObject({ activeFeedback: null, feedbackPieceId: null, feedbackTargetPos: null });
+  });
+
+  it('旋轉與縮放的回饋 1 秒後清除', () => {
+    useGameStore.getState().updatePieceTransform('p1', { rotation: 0 });
+    expect(useGameStore.getState().activeFeedback).toBe('rotation');
+
+    vi.advanceTimersByTime(1000);
+    expect(useGameStore.getState().activeFeedback).toBeNull();
+  });
+
+  it('已經對齊的面向不重複觸發，回饋播放中不觸發新回饋', () => {
+    const { updatePieceTransform } = useGameStore.getState();
+    updatePieceTransform('p1', { x: 200 });
+    updatePieceTransform('p1', { rotation: 0 });
+    expect(useGameStore.getState().activeFeedback).toBe('positionX');
+
+    vi.advanceTimersByTime(1500);
+    updatePieceTransform('p1', { x: 199 });
+    expect(useGameStore.getState().activeFeedback).toBeNull();
+    updatePieceTransform('p1', { y: 260 });
+    expect(useGameStore.getState().activeFeedback).toBe('positionY');
+  });
+
+  it('套用與模擬核心相同的角度正規化與縮放夾限', () => {
+    useGameStore.getState().updatePieceTransform('p1', { rotation: 190, scaleX: 5 });
+    expect(useGameStore.getState().pieces[0].current).toMatchObject({ rotation: -170, scaleX: 2 });
+  });
+
+  it('遊戲結束後不觸發回饋', () => {
+    useGameStore.getState().setGameState('WIN');
+    useGameStore.getState().updatePieceTransform('p1', { x: 200 });
+    expect(useGameStore.getState().activeFeedback).toBeNull();
+    expect(useGameStore.getState().pieces[0].current.x).toBe(200);
+  });
+});
+
+describe('checkWinCondition', () => {
+  beforeEach(() => {
+    useGameStore.getState().loadLevel(config);
+  });
+
+  it('未達門檻時維持 PLAYING 並更新總誤差', () => {
+    dragTo(200, 260);
+    expect(useGameStore.getState()).toMatchObject({ gameState: 'PLAYING', winRating: null, totalError: 17.5 });
+  });
+
+  it('過關時經過 2 秒的 WINNING 後進入 WIN', () => {
+    useGameStore.getState().selectPiece('p1');
+    dragTo(200, 260);
+    rotateTo(0);
+
+    expect(useGameStore.getState()).toMatchObject({
+      gameState: 'WINNING',
+      winRating: 'Perfect',
+      totalError: 0,
+      selectedPieceId: null,
+      activeFeedback: null,
+    });
+
+    vi.advanceTimersByTime(1999);
+    expect(useGameStore.getState().gameState).toBe('WINNING');
+    vi.advanceTimersByTime(1);
+    expect(useGameStore.getState().gameState).toBe('WIN');
+  });
+
+  it('過關流程中不重複判定', () => {
+    dragTo(200, 260);
+    rotateTo(0);
+    vi.advanceTimersByTime(1000);
+
+    useGameStore.getState().updatePieceTransform('p1', { x: 100 });
+    useGameStore.getState().checkWinCondition();
+    expect(useGameStore.getState()).toMatchObject({ gameState: 'WINNING', winRating: 'Perfect', totalError: 0 });
+
+    vi.advanceTimersByTime(1000);
+    expect(useGameStore.getState().gameState).toBe('WIN');
+    vi.advanceTimersByTime(5000);
+    expect(useGameStore.getState().gameState).toBe('WIN');
+  });
+
+  it('內建關卡記錄最佳成績、解鎖關卡並保存幽靈', () => {
+    dragTo(200, 260);
+    vi.advanceTimersByTime(3000);
+    rotateTo(0);
+
+    const state = useGameStore.getState();
+    expect(state.levelProgress[3]).toMatchObject({ bestRating: 'Perfect', bestTotalError: 0, fewestActions: 2, clearCount: 1 });
+    expect(state.unlockedLevelIds).toContain(3);
+    expect(state.ghostRuns[3]).toMatchObject({ durationMs: 3000, actionLogs: state.actionLogs });
+  });
+
+  it('按住控制鈕途中過關時，幽靈包含最後一個操作', () => {
+    dragTo(200, 260);
+    vi.advanceTimersByTime(1000);
+    holdRotateTo(0);
+
+    const state = useGameStore.getState();
+    expect(state.gameState).toBe('WINNING');
+    expect(state.actionLogs).toHaveLength(2);
+    expect(state.ghostRuns[3]).toMatchObject({ durationMs: 1700, actionLogs: state.actionLogs });
+  });
+
+  it('按住控制鈕途中過關時，最少操作次數包含最後一個操作', () => {
+    dragTo(200, 260);
+    holdRotateTo(0);
+
+    expect(useGameStore.getState().levelProgress[3]).toMatchObject({ fewestActions: 2, clearCount: 1 });
+  });
+
+  it('沒有操作記錄的幽靈會被取代', () => {
+    useGameStore.setState({ ghostRuns: { 3: { levelHash: hashLevelConfig(config), actionLogs: [], durationMs: 0, recordedAt: 0 } } });
+    dragTo(200, 260);
+    holdRotateTo(0);
+
+    expect(useGameStore.getState().ghostRuns[3].actionLogs).toHaveLength(2);
+  });
+
+  it('自訂關卡不記錄成績', () => {
+    useGameStore.getState().loadLevel(config, { custom: true });
+    dragTo(200, 260);
+    rotateTo(0);
+
+    const state = useGameStore.getState();
+    expect(state.gameState).toBe('WINNING');
+    expect(state.levelProgress[3]).toBeUndefined();
+    expect(state.ghostRuns[3]).toBeUndefined();
+  });
+});
+
+describe('undo / redo', () => {
+  beforeEach(() => {
+    useGameStore.getState().loadLevel(config);
+  });
+
+  it('撤銷還原碎片並寫入反向操作，重做恢復', () => {
+    dragTo(200, 260);
+    vi.advanceTimersByTime(500);
+    useGameStore.getState().undo();
+
+    let state = useGameStore.getState();
+    expect(state.pieces[0].current).toMatchObject({ x: 100, y: 140 });
+    expect(state.actionLogs).toHaveLength(2);
+    expect(state.actionLogs[1]).toMatchObject({ timestamp: 500, payload: { fromX: 200, fromY: 260, toX: 100, toY: 140 } });
+    expect(state.redoStack).toHaveLength(1);
+
+    useGameStore.getState().redo();
+    state = useGameStore.getState();
+    expect(state.pieces[0].current).toMatchObject({ x: 200, y: 260 });
+    expect(state.actionLogs).toHaveLength(3);
+    expect(state.undoStack).toHaveLength(1);
+    expect(state.redoStack).toHaveLength(0);
+  });
+
+  it('過關後不能撤銷', () => {
+    dragTo(200, 260);
+    rotateTo(0);
+    useGameStore.getState().undo();
+
+    const state = useGameStore.getState();
+    expect(state.pieces[0].current).toMatchObject({ x: 200, y: 260, rotation: 0 });
+    expect(state.actionLogs).toHaveLength(2);
+  });
+});
+
+describe('每日挑戰', () => {
+  const DATE = '2026-01-01';
+
+  it('第一個操作開始計分，過關時記錄成績', () => {
+    useGameStore.getState().loadLevel(config, { dailyDate: DATE });
+    expect(useGameStore.getState()).toMatchObject({ isScoredDaily: false, dailyAttempts: [] });
+
+    dragTo(200, 260);
+    expect(useGameStore.getState()).toMatchObject({ isScoredDaily: true, dailyAttempts: [DATE] });
+
+    vi.advanceTimersByTime(4000);
+    rotateTo(0);
+    expect(useGameStore.getState().dailyResults).toEqual([
+      { date: DATE, rating: 'Perfect', totalError: 0, actionCount: 2, durationMs: 4000, completedAt: NOW + 4000 },
+    ]);
+  });
+
+  it('按住控制鈕途中過關時，成績的操作次數包含最後一個操作', () => {
+    useGameStore.getState().loadLevel(config, { dailyDate: DATE });
+    dragTo(200, 260);
+    holdRotateTo(0);
+
+    expect(useGameStore.getState().dailyResults).toEqual([
+      { date: DATE, rating: 'Perfect', totalError: 0, actionCount: 2, durationMs: 700, completedAt: NOW + 700 },
+    ]);
+  });
+
+  it('開始後重新開始為練習，過關也不記錄', () => {
+    useGameStore.getState().loadLevel(config, { dailyDate: DATE });
+    dragTo(150, 200);
+    useGameStore.getState().resetLevel();
+
+    dragTo(200, 260);
+    rotateTo(0);
+    const state = useGameStore.getState();
+    expect(state).toMatchObject({ gameState: 'WINNING', isScoredDaily: false, dailyAttempts: [DATE] });
+    expect(state.dailyResults).toEqual([]);
+  });
+
+  it('只開啟而沒有操作時不用掉計分機會', () => {
+    useGameStore.getState().loadLevel(config, { dailyDate: DATE });
+    useGameStore.getState().resetLevel();
+    expect(useGameStore.getState().dailyAttempts).toEqual([]);
+
+    dragTo(200, 260);
+    expect(useGameStore.getState().isScoredDaily).toBe(true);
+  });
+});
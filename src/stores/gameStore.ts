@@ -1,49 +1,185 @@
-import { create } from 'zustand';
+import { create, type StoreApi } from 'zustand';
+import { persist } from 'zustand/middleware';
 import type {
   GameStoreState,
   GameState,
   LevelConfig,
-  PieceState,
   Transform,
   ActionLog,
   SnapSize,
-  FeedbackType,
+  GamePreferences,
+  ResumeSnapshot,
+  DailyResult,
+  WinRating,
 } from '../types';
-import { calculateError, getWinRating, normalizeAngle, clampScale } from '../utils';
+import { createPieceStates, getSnapStep, mergeLevelProgress } from '../utils';
+import { detectFeedback, stepSimulation } from '../simulation';
+import type { SimulationAction, SimulationState } from '../simulation';
+import { createGhostRun, getCustomLevelKey, isBetterGhostRun } from '../levels';
+import { DEFAULT_PERSISTED_STATE, buildResumeSnapshot, gamePersistOptions } from './persistence';
 
-export const useGameStore = create<GameStoreState>((set, get) => ({
+type SetGameState = StoreApi<GameStoreState>['setState'];
+type GetGameState = StoreApi<GameStoreState>['getState'];
+
+// 目前這一局對應的模擬狀態；PLAYING 以外（過關流程中、暫時離開）都視為已結束，不再判定勝利或撤銷
+function toSimulation(state: GameStoreState, config: LevelConfig): SimulationState {
+  return {
+    config,
+    pieces: state.pieces,
+    actionLogs: state.actionLogs,
+    undoStack: state.undoStack,
+    redoStack: state.redoStack,
+    status: state.gameState === 'PLAYING' ? 'PLAYING' : 'CLEARED',
+    totalError: state.totalError,
+    rating: state.winRating,
+    clearedAt: null,
+  };
+}
+
+// 以模擬核心推進一步（與回放、驗證相同的狀態轉換），再處理畫面回饋與過關流程
+function stepGame(set: SetGameState, get: GetGameState, action: SimulationAction) {
+  const state = get();
+  if (!state.levelConfig) return;
+
+  const prev = toSimulation(state, state.levelConfig);
+  const next = stepSimulation(prev, action);
+  if (next === prev) return;
+
+  // 檢測被改變的碎片是否剛達到正確值；已有反饋在播放或遊戲已結束時不觸發新反饋
+  const index = next.pieces.findIndex((piece, i) => piece !== prev.pieces[i]);
+  const piece = index >= 0 ? prev.pieces[index] : null;
+  const feedback = piece && !state.activeFeedback && prev.status === 'PLAYING'
+    ? detectFeedback(piece, next.pieces[index].current)
+    : null;
+
+  set({
+    pieces: next.pieces,
+    actionLogs: next.actionLogs,
+    undoStack: next.undoStack,
+    redoStack: next.redoStack,
+    totalError: next.totalError,
+    ...(piece && feedback
+      ? { activeFeedback: feedback, feedbackPieceId: piece.id, feedbackTargetPos: { x: piece.target.x, y: piece.target.y } }
+      : {}),
+  });
+
+  // 自動清除回饋（旋轉/縮放 1 秒，位置 1.5 秒）
+  if (feedback) {
+    const duration = (feedback === 'rotation' || feedback === 'scale') ? 1000 : 1500;
+    setTimeout(() => {
+      set({ activeFeedback: null, feedbackPieceId: null, feedbackTargetPos: null });
+    }, duration);
+  }
+
+  if (prev.status === 'PLAYING' && next.status === 'CLEARED' && next.rating) {
+    enterWinning(set, get, next.rating);
+  }
+}
+
+// 剛過關：記錄成績，播放慶祝動畫後進入 WIN
+function enterWinning(set: SetGameState, get: GetGameState, rating: NonNullable<WinRating>) {
+  const { levelConfig, totalError, dailyDate, isCustomLevel, actionLogs } = get();
+  if (!levelConfig) return;
+
+  if (dailyDate) {
+    // 每日挑戰只記錄計分的那一局，練習不記錄
+    const { isScoredDaily, dailyResults, gameStartTime } = get();
+    if (isScoredDaily && !dailyResults.some((result) => result.date === dailyDate)) {
+      const result: DailyResult = {
+        date: dailyDate,
+        rating,
+        totalError,
+        actionCount: actionLogs.length,
+        durationMs: Date.now() - gameStartTime,
+        completedAt: Date.now(),
+      };
+      set({ dailyResults: [...dailyResults, result] });
+    }
+  } else if (!isCustomLevel) {
+    // 更新本關最佳紀錄並解鎖本關（自訂關卡的 level_id 可能與內建關卡重複，不記錄）
+    const { levelProgress, unlockedLevelIds, ghostRuns } = get();
+    const levelId = levelConfig.level_id;
+    // 比先前更快過關時取代幽靈
+    const ghostRun = createGhostRun(levelConfig, actionLogs);
+    set({
+      levelProgress: {
+        ...levelProgress,
+        [levelId]: mergeLevelProgress(levelProgress[levelId], {
+          rating,
+          totalError,
+          actionCount: actionLogs.length,
+        }),
+      },
+      unlockedLevelIds: unlockedLevelIds.includes(levelId)
+        ? unlockedLevelIds
+        : [...unlockedLevelIds, levelId],
+      ghostRuns: isBetterGhostRun(ghostRun, ghostRuns[levelId])
+        ? { ...ghostRuns, [levelId]: ghostRun }
+        : ghostRuns,
+    });
+  }
+
+  // 先進入過渡狀態，播放慶祝動畫
+  set({
+    winRating: rating,
+    gameState: 'WINNING',
+    activeFeedback: null,
+    feedbackPieceId: null,
+    feedbackTargetPos: null,
+    selectedPieceId: null, // 取消選取
+  });
+
+  // 過渡動畫結束後進入正式勝利狀態（2秒後）
+  setTimeout(() => {
+    set({ gameState: 'WIN' });
+  }, 2000);
+}
+
+export const useGameStore = create<GameStoreState>()(persist((set, get) => ({
   // 初始狀態
   gameState: 'IDLE',
   levelConfig: null,
+  isCustomLevel: false,
+  dailyDate: null,
+  isScoredDaily: false,
   pieces: [],
   selectedPieceId: null,
   actionLogs: [],
   gameStartTime: 0,
+  undoStack: [],
+  redoStack: [],
   isPreviewActive: false,
   winRating: null,
   totalError: 0,
-  snapSize: 1,        // 預設 1px（實際 5px）
+  snapSize: DEFAULT_PERSISTED_STATE.snapSize,  // 預設 1px（實際 5px）
+  unlockedLevelIds: DEFAULT_PERSISTED_STATE.unlockedLevelIds,
+  levelProgress: DEFAULT_PERSISTED_STATE.levelProgress,
+  preferences: DEFAULT_PERSISTED_STATE.preferences,
+  resumeSnapshot: DEFAULT_PERSISTED_STATE.resumeSnapshot,
+  customLevels: DEFAULT_PERSISTED_STATE.customLevels,
+  dailyResults: DEFAULT_PERSISTED_STATE.dailyResults,
+  dailyAttempts: DEFAULT_PERSISTED_STATE.dailyAttempts,
+  ghostRuns: DEFAULT_PERSISTED_STATE.ghostRuns,
   activeFeedback: null,
   feedbackPieceId: null,
   feedbackTargetPos: null,
 
   // 載入關卡
-  loadLevel: (config: LevelConfig) => {
-    const pieces: PieceState[] = config.pieces.map((p) => ({
-      id: p.id,
-      texture: p.texture,
-      shape: p.shape,
-      current: { ...p.start_transform },
-      target: { ...p.target_transform },
-    }));
+  loadLevel: (config: LevelConfig, options = {}) => {
+    const pieces = createPieceStates(config);
 
     set({
       levelConfig: config,
+      isCustomLevel: options.custom ?? false,
+      dailyDate: options.dailyDate ?? null,
+      isScoredDaily: false,
       pieces,
       gameState: 'PLAYING',
       selectedPieceId: null,
       actionLogs: [],
       gameStartTime: Date.now(),
+      undoStack: [],
+      redoStack: [],
       isPreviewActive: false,
       winRating: null,
       totalError: 0,
@@ -53,6 +189,41 @@ export const useGameStore = create<GameStoreState>((set, get) => ({
     });
   },
 
+  // 從快照繼續關卡（碎片位置、操作記錄與已進行時間皆還原）
+  resumeLevel: (config: LevelConfig, snapshot: ResumeSnapshot) => {
+    get().loadLevel(config);
+
+    const savedTransforms = new Map(snapshot.pieces.map((p) => [p.id, p.current]));
+    const elapsed = Math.max(0, snapshot.savedAt - snapshot.gameStartTime);
+
+    set((state) => ({
+      pieces: state.pieces.map((p) => {
+        const current = savedTransforms.get(p.id);
+        return current ? { ...p, current: { ...current } } : p;
+      }),
+      actionLogs: snapshot.actionLogs,
+      undoStack: snapshot.undoStack,
+      redoStack: snapshot.redoStack,
+      // 以已進行時間回推開始時間，讓後續操作的 timestamp 與快照銜接
+      gameStartTime: Date.now() - elapsed,
+      resumeSnapshot: null,
+    }));
+  },
+
+  // 放棄快照
+  clearResumeSnapshot: () => {
+    set({ resumeSnapshot: null });
+  },
+
+  // 暫時離開遊戲（例如開啟關卡編輯器）：保存目前進度為快照，回來時可繼續
+  suspendLevel: () => {
+    set({
+      resumeSnapshot: buildResumeSnapshot(get()) ?? get().resumeSnapshot,
+      gameState: 'IDLE',
+      selectedPieceId: null,
+    });
+  },
+
   // 選取碎片
   selectPiece: (id: string | null) => {
     set({ selectedPieceId: id });
@@ -60,80 +231,7 @@ export const useGameStore = create<GameStoreState>((set, get) => ({
 
   // 更新碎片變換
   updatePieceTransform: (id: string, transform: Partial<Transform>) => {
-    const { pieces, activeFeedback, gameState } = get();
-    const piece = pieces.find(p => p.id === id);
-    if (!piece) return;
-
-    // 勝利後不再觸發反饋
-    const shouldShowFeedback = gameState === 'PLAYING';
-
-    const ROTATION_THRESHOLD = 0.5; // 角度容差
-    const SCALE_THRESHOLD = 0.02;   // 縮放容差
-    const POSITION_THRESHOLD = 2;   // 位置容差（像素）
-
-    // 更新前的狀態
-    const wasRotationCorrect = Math.abs(piece.current.rotation - piece.target.rotation) < ROTATION_THRESHOLD;
-    const wasScaleCorrect =
-      Math.abs(piece.current.scaleX - piece.target.scaleX) < SCALE_THRESHOLD &&
-      Math.abs(piece.current.scaleY - piece.target.scaleY) < SCALE_THRESHOLD;
-    const wasXCorrect = Math.abs(piece.current.x - piece.target.x) < POSITION_THRESHOLD;
-    const wasYCorrect = Math.abs(piece.current.y - piece.target.y) < POSITION_THRESHOLD;
-
-    // 計算新值
-    const newCurrent = { ...piece.current };
-    if (transform.x !== undefined) newCurrent.x = transform.x;
-    if (transform.y !== undefined) newCurrent.y = transform.y;
-    if (transform.rotation !== undefined) {
-      newCurrent.rotation = normalizeAngle(transform.rotation);
-    }
-    if (transform.scaleX !== undefined) {
-      newCurrent.scaleX = clampScale(transform.scaleX);
-    }
-    if (transform.scaleY !== undefined) {
-      newCurrent.scaleY = clampScale(transform.scaleY);
-    }
-
-    // 更新後的狀態
-    const isRotationCorrect = Math.abs(newCurrent.rotation - piece.target.rotation) < ROTATION_THRESHOLD;
-    const isScaleCorrect =
-      Math.abs(newCurrent.scaleX - piece.target.scaleX) < SCALE_THRESHOLD &&
-      Math.abs(newCurrent.scaleY - piece.target.scaleY) < SCALE_THRESHOLD;
-    const isXCorrect = Math.abs(newCurrent.x - piece.target.x) < POSITION_THRESHOLD;
-    const isYCorrect = Math.abs(newCurrent.y - piece.target.y) < POSITION_THRESHOLD;
-
-    // 檢測是否剛達到正確值（優先級：位置 > 旋轉 > 縮放）
-    let feedback: FeedbackType = null;
-    let targetPos = { x: piece.target.x, y: piece.target.y };
-
-    // 如果已有反饋在播放或遊戲已結束，不觸發新反饋
-    if (!activeFeedback && shouldShowFeedback) {
-      if (!wasXCorrect && isXCorrect) {
-        feedback = 'positionX';
-      } else if (!wasYCorrect && isYCorrect) {
-        feedback = 'positionY';
-      } else if (!wasRotationCorrect && isRotationCorrect) {
-        feedback = 'rotation';
-      } else if (!wasScaleCorrect && isScaleCorrect) {
-        feedback = 'scale';
-      }
-    }
-
-    set((state) => ({
-      pieces: state.pieces.map((p) =>
-        p.id === id ? { ...p, current: newCurrent } : p
-      ),
-      activeFeedback: feedback || state.activeFeedback,
-      feedbackPieceId: feedback ? id : state.feedbackPieceId,
-      feedbackTargetPos: feedback ? targetPos : state.feedbackTargetPos,
-    }));
-
-    // 自動清除回饋（旋轉/縮放 1 秒，位置 1.5 秒）
-    if (feedback) {
-      const duration = (feedback === 'rotation' || feedback === 'scale') ? 1000 : 1500;
-      setTimeout(() => {
-        set({ activeFeedback: null, feedbackPieceId: null, feedbackTargetPos: null });
-      }, duration);
-    }
+    stepGame(set, get, { type: 'update', pieceId: id, update: transform });
   },
 
   // 設定遊戲狀態
@@ -151,46 +249,35 @@ export const useGameStore = create<GameStoreState>((set, get) => ({
     const { gameStartTime } = get();
     const timestamp = Date.now() - gameStartTime;
 
-    set((state) => ({
-      actionLogs: [...state.actionLogs, { ...log, timestamp }],
-    }));
+    stepGame(set, get, { type: 'record', log: { ...log, timestamp } });
+
+    // 每日挑戰：當天第一次有操作的一局計分，之後重新開始或再次進入都是練習
+    const { dailyDate, dailyAttempts } = get();
+    if (dailyDate && !dailyAttempts.includes(dailyDate)) {
+      set({ dailyAttempts: [...dailyAttempts, dailyDate], isScoredDaily: true });
+    }
+  },
+
+  // 撤銷上一個操作（套用 from* 值，並寫入反向操作）
+  undo: () => {
+    stepGame(set, get, { type: 'undo', timestamp: Date.now() - get().gameStartTime });
+  },
+
+  // 重做上一個被撤銷的操作（套用 to* 值）
+  redo: () => {
+    stepGame(set, get, { type: 'redo', timestamp: Date.now() - get().gameStartTime });
   },
 
-  // 檢查勝利條件
+  // 檢查勝利條件（在 addActionLog 之後呼叫，過關紀錄才包含最後一個操作）
   checkWinCondition: () => {
-    const { pieces, levelConfig, gameState } = get();
-    if (!levelConfig) return;
-    // 如果已經在過關流程中，不重複觸發
-    if (gameState === 'WINNING' || gameState === 'WIN') return;
-
-    const totalError = calculateError(pieces);
-    const rating = getWinRating(totalError);
-
-    set({ totalError });
-
-    if (rating) {
-      // 先進入過渡狀態，播放慶祝動畫
-      set({
-        winRating: rating,
-        gameState: 'WINNING',
-        activeFeedback: null,
-        feedbackPieceId: null,
-        feedbackTargetPos: null,
-        selectedPieceId: null, // 取消選取
-      });
-
-      // 過渡動畫結束後進入正式勝利狀態（2秒後）
-      setTimeout(() => {
-        set({ gameState: 'WIN' });
-      }, 2000);
-    }
+    stepGame(set, get, { type: 'check' });
   },
 
   // 重置關卡
   resetLevel: () => {
-    const { levelConfig } = get();
+    const { levelConfig, isCustomLevel, dailyDate } = get();
     if (levelConfig) {
-      get().loadLevel(levelConfig);
+      get().loadLevel(levelConfig, { custom: isCustomLevel, dailyDate: dailyDate ?? undefined });
     }
   },
 
@@ -202,8 +289,42 @@ export const useGameStore = create<GameStoreState>((set, get) => ({
   // 將數值對齊到格線
   // 玩家選擇 1px → 實際 5px, 5px → 10px, 10px → 20px
   snapToGrid: (value: number): number => {
-    const { snapSize } = get();
-    const actualSnap = snapSize === 1 ? 5 : snapSize === 5 ? 10 : 20;
+    const actualSnap = getSnapStep(get().snapSize);
     return Math.round(value / actualSnap) * actualSnap;
   },
-}));
+
+  // 解鎖關卡
+  unlockLevel: (levelId: number) => {
+    const { unlockedLevelIds } = get();
+    if (unlockedLevelIds.includes(levelId)) return;
+    set({ unlockedLevelIds: [...unlockedLevelIds, levelId] });
+  },
+
+  // 更新偏好設定
+  setPreference: <K extends keyof GamePreferences>(key: K, value: GamePreferences[K]) => {
+    set((state) => ({ preferences: { ...state.preferences, [key]: value } }));
+  },
+
+  // 清除所有進度（保留偏好設定）
+  resetProgress: () => {
+    set({
+      unlockedLevelIds: DEFAULT_PERSISTED_STATE.unlockedLevelIds,
+      levelProgress: DEFAULT_PERSISTED_STATE.levelProgress,
+      ghostRuns: DEFAULT_PERSISTED_STATE.ghostRuns,
+    });
+  },
+
+  // 新增自訂關卡（相同內容不重複保存）
+  addCustomLevel: (config: LevelConfig) => {
+    const key = getCustomLevelKey(config);
+    const { customLevels } = get();
+    if (!customLevels.some((level) => level.key === key)) {
+      set({ customLevels: [...customLevels, { key, config, addedAt: Date.now() }] });
+    }
+    return key;
+  },
+
+  removeCustomLevel: (key: string) => {
+    set((state) => ({ customLevels: state.customLevels.filter((level) => level.key !== key) }));
+  },
+}), gamePersistOptions));
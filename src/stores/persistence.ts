@@ -0,0 +1,319 @@
+import { createJSONStorage, type PersistOptions } from 'zustand/middleware';
+import { getCustomLevelKey, validateLevelConfig } from '../levels';
+import type {
+  ActionLog,
+  CustomLevel,
+  DailyResult,
+  GamePreferences,
+  GameStoreState,
+  GhostRun,
+  LevelProgress,
+  ResumeSnapshot,
+  SnapSize,
+  Transform,
+  WinRating,
+} from '../types';
+
+// ===== 存檔設定 =====
+// 存檔格式變更時遞增版本號，並在 migrateGameSave 中補上對應的轉換
+export const SAVE_STORAGE_KEY = 'perfect-align-save';
+export const SAVE_VERSION = 6;
+
+// 持久化的欄位（其餘遊戲中狀態不寫入 localStorage）
+export type PersistedGameState = Pick<
+  GameStoreState,
+  | 'unlockedLevelIds'
+  | 'levelProgress'
+  | 'snapSize'
+  | 'preferences'
+  | 'resumeSnapshot'
+  | 'customLevels'
+  | 'dailyResults'
+  | 'dailyAttempts'
+  | 'ghostRuns'
+>;
+
+export const DEFAULT_PREFERENCES: GamePreferences = {
+  showGrid: true,
+  showAccuracy: false,
+  showGhost: false,
+};
+
+export const DEFAULT_PERSISTED_STATE: PersistedGameState = {
+  unlockedLevelIds: [],
+  levelProgress: {},
+  snapSize: 1,
+  preferences: DEFAULT_PREFERENCES,
+  resumeSnapshot: null,
+  customLevels: [],
+  dailyResults: [],
+  dailyAttempts: [],
+  ghostRuns: {},
+};
+
+const SNAP_SIZES: SnapSize[] = [1, 5, 10];
+const RATINGS: WinRating[] = ['Perfect', 'Great', 'Good'];
+const DATE_KEY_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function isFiniteNumber(value: unknown): value is number {
+  return typeof value === 'number' && Number.isFinite(value);
+}
+
+// 單一關卡紀錄，格式不符時丟棄
+function sanitizeLevelProgress(value: unknown): LevelProgress | null {
+  if (!isRecord(value)) return null;
+  const { bestRating, bestTotalError, fewestActions, clearCount } = value;
+  if (!RATINGS.includes(bestRating as WinRating) || bestRating === null) return null;
+  if (!isFiniteNumber(bestTotalError) || !isFiniteNumber(fewestActions)) return null;
+
+  return {
+    bestRating: bestRating as LevelProgress['bestRating'],
+    bestTotalError,
+    fewestActions,
+    clearCount: isFiniteNumber(clearCount) ? clearCount : 1,
+  };
+}
+
+function isTransform(value: unknown): value is Transform {
+  if (!isRecord(value)) return false;
+  return (['x', 'y', 'rotation', 'scaleX', 'scaleY'] as const).every((key) => isFiniteNumber(value[key]));
+}
+
+function isActionLog(value: unknown): value is ActionLog {
+  return (
+    isRecord(value) &&
+    isFiniteNumber(value.timestamp) &&
+    typeof value.pieceId === 'string' &&
+    typeof value.type === 'string' &&
+    isRecord(value.payload)
+  );
+}
+
+// 進行中關卡快照，任何部分損壞即整份丟棄（避免還原出不完整的局面）
+function sanitizeResumeSnapshot(value: unknown): ResumeSnapshot | null {
+  if (!isRecord(value)) return null;
+  const { levelId, pieces, actionLogs, undoStack, redoStack, gameStartTime, savedAt } = value;
+  if (!isFiniteNumber(levelId) || !isFiniteNumber(gameStartTime) || !isFiniteNumber(savedAt)) return null;
+  if (!Array.isArray(pieces) || !pieces.every((p) => isRecord(p) && typeof p.id === 'string' && isTransform(p.current))) {
+    return null;
+  }
+  if (!Array.isArray(actionLogs) || !actionLogs.every(isActionLog)) return null;
+
+  return {
+    levelId,
+    pieces: pieces as ResumeSnapshot['pieces'],
+    actionLogs,
+    undoStack: Array.isArray(undoStack) ? undoStack.filter(isActionLog) : [],
+    redoStack: Array.isArray(redoStack) ? redoStack.filter(isActionLog) : [],
+    gameStartTime,
+    savedAt,
+  };
+}
+
+// 自訂關卡重新驗證，無效的關卡丟棄；key 依內容重新計算
+function sanitizeCustomLevels(value: unknown): CustomLevel[] {
+  if (!Array.isArray(value)) return [];
+
+  const levels: CustomLevel[] = [];
+  for (const entry of value) {
+    if (!isRecord(entry)) continue;
+    const result = validateLevelConfig(entry.config, SAVE_STORAGE_KEY);
+    if (!result.ok) continue;
+
+    const key = getCustomLevelKey(result.config);
+    if (levels.some((level) => level.key === key)) continue;
+    levels.push({ key, config: result.config, addedAt: isFiniteNumber(entry.addedAt) ? entry.addedAt : 0 });
+  }
+  return levels;
+}
+
+// 每日挑戰成績，格式不符的項目丟棄；同一天只保留第一筆，依日期排序
+function sanitizeDailyResults(value: unknown): DailyResult[] {
+  if (!Array.isArray(value)) return [];
+
+  const results: DailyResult[] = [];
+  for (const entry of value) {
+    if (!isRecord(entry)) continue;
+    const { date, rating, totalError, actionCount, durationMs, completedAt } = entry;
+    if (typeof date !== 'string' || !DATE_KEY_PATTERN.test(date)) continue;
+    if (!RATINGS.includes(rating as WinRating) || rating === null) continue;
+    if (![totalError, actionCount, durationMs, completedAt].every(isFiniteNumber)) continue;
+    if (results.some((result) => result.date === date)) continue;
+
+    results.push({
+      date,
+      rating: rating as DailyResult['rating'],
+      totalError: totalError as number,
+      actionCount: actionCount as number,
+      durationMs: durationMs as number,
+      completedAt: completedAt as number,
+    });
+  }
+  return results.sort((a, b) => (a.date < b.date ? -1 : a.date > b.date ? 1 : 0));
+}
+
+// 已開始的每日挑戰日期；有成績的日期一定已開始過
+function sanitizeDailyAttempts(value: unknown, results: DailyResult[]): string[] {
+  const dates = Array.isArray(value)
+    ? value.filter((date): date is string => typeof date === 'string' && DATE_KEY_PATTERN.test(date))
+    : [];
+  return [...new Set([...dates, ...results.map((result) => result.date)])].sort();
+}
+
+// 幽靈紀錄，操作記錄任何一筆損壞即丟棄該關（無法完整重現）
+function sanitizeGhostRuns(value: unknown): Record<number, GhostRun> {
+  const runs: Record<number, GhostRun> = {};
+  if (!isRecord(value)) return runs;
+
+  for (const [levelId, entry] of Object.entries(value)) {
+    if (!isRecord(entry) || !isFiniteNumber(Number(levelId))) continue;
+    const { levelHash, actionLogs, durationMs, recordedAt } = entry;
+    if (typeof levelHash !== 'string' || !isFiniteNumber(durationMs)) continue;
+    // 沒有操作記錄的幽靈（舊版長按過關時可能存下）無法重現
+    if (!Array.isArray(actionLogs) || actionLogs.length === 0 || !actionLogs.every(isActionLog)) continue;
+
+    runs[Number(levelId)] = {
+      levelHash,
+      actionLogs,
+      durationMs,
+      recordedAt: isFiniteNumber(recordedAt) ? recordedAt : 0,
+    };
+  }
+  return runs;
+}
+
+// 清理存檔內容：缺少或損壞的欄位回到預設值，不影響其他欄位
+export function sanitizeGameSave(value: unknown): PersistedGameState {
+  if (!isRecord(value)) return DEFAULT_PERSISTED_STATE;
+
+  const unlockedLevelIds = Array.isArray(value.unlockedLevelIds)
+    ? value.unlockedLevelIds.filter(isFiniteNumber)
+    : DEFAULT_PERSISTED_STATE.unlockedLevelIds;
+
+  const levelProgress: Record<number, LevelProgress> = {};
+  if (isRecord(value.levelProgress)) {
+    for (const [levelId, entry] of Object.entries(value.levelProgress)) {
+      const progress = sanitizeLevelProgress(entry);
+      if (progress && isFiniteNumber(Number(levelId))) {
+        levelProgress[Number(levelId)] = progress;
+      }
+    }
+  }
+
+  const snapSize = SNAP_SIZES.includes(value.snapSize as SnapSize)
+    ? (value.snapSize as SnapSize)
+    : DEFAULT_PERSISTED_STATE.snapSize;
+
+  const preferences: GamePreferences = { ...DEFAULT_PREFERENCES };
+  if (isRecord(value.preferences)) {
+    for (const key of Object.keys(DEFAULT_PREFERENCES) as (keyof GamePreferences)[]) {
+      if (typeof value.preferences[key] === 'boolean') {
+        preferences[key] = value.preferences[key];
+      }
+    }
+  }
+
+  const resumeSnapshot = sanitizeResumeSnapshot(value.resumeSnapshot);
+  const customLevels = sanitizeCustomLevels(value.customLevels);
+  const dailyResults = sanitizeDailyResults(value.dailyResults);
+  const dailyAttempts = sanitizeDailyAttempts(value.dailyAttempts, dailyResults);
+  const ghostRuns = sanitizeGhostRuns(value.ghostRuns);
+
+  return {
+    unlockedLevelIds,
+    levelProgress,
+    snapSize,
+    preferences,
+    resumeSnapshot,
+    customLevels,
+    dailyResults,
+    dailyAttempts,
+    ghostRuns,
+  };
+}
+
+// 各版本的遷移步驟：key 為目標版本，將前一版資料轉換為該版格式
+const SAVE_MIGRATIONS: Record<number, (state: unknown) => unknown> = {
+  // 0 → 1：未標記版本的初版存檔，欄位與 v1 相同
+  1: (state) => state,
+  // 1 → 2：新增進行中關卡快照
+  2: (state) => (isRecord(state) ? { ...state, resumeSnapshot: null } : state),
+  // 2 → 3：新增自訂關卡
+  3: (state) => (isRecord(state) ? { ...state, customLevels: [] } : state),
+  // 3 → 4：新增每日挑戰成績
+  4: (state) => (isRecord(state) ? { ...state, dailyResults: [] } : state),
+  // 4 → 5：新增最佳紀錄的幽靈
+  5: (state) => (isRecord(state) ? { ...state, ghostRuns: {} } : state),
+  // 5 → 6：新增已開始的每日挑戰（清理時補上已有成績的日期）
+  6: (state) => (isRecord(state) ? { ...state, dailyAttempts: [] } : state),
+};
+
+// 舊版存檔遷移：依版本逐步轉換到目前格式，最後統一清理
+export function migrateGameSave(persistedState: unknown, version: number): PersistedGameState {
+  let state = persistedState;
+  for (let v = version + 1; v <= SAVE_VERSION; v++) {
+    const migrate = SAVE_MIGRATIONS[v];
+    if (migrate) {
+      state = migrate(state);
+    }
+  }
+  return sanitizeGameSave(state);
+}
+
+// 進行中（且已有操作）的內建關卡快照，尚未操作、不在遊戲中、自訂關卡或每日挑戰時為 null
+export function buildResumeSnapshot(state: GameStoreState): ResumeSnapshot | null {
+  if (
+    state.gameState !== 'PLAYING' ||
+    !state.levelConfig ||
+    state.isCustomLevel ||
+    state.dailyDate ||
+    state.actionLogs.length === 0
+  ) {
+    return null;
+  }
+
+  return {
+    levelId: state.levelConfig.level_id,
+    pieces: state.pieces.map((p) => ({ id: p.id, current: p.current })),
+    actionLogs: state.actionLogs,
+    undoStack: state.undoStack,
+    redoStack: state.redoStack,
+    gameStartTime: state.gameStartTime,
+    savedAt: Date.now(),
+  };
+}
+
+// 遊戲進行中時即時產生快照；尚未開始（IDLE）時保留先前的快照；過關後清除
+function getResumeSnapshotToSave(state: GameStoreState): ResumeSnapshot | null {
+  if (state.gameState === 'IDLE') {
+    return state.resumeSnapshot;
+  }
+  return buildResumeSnapshot(state);
+}
+
+export const gamePersistOptions: PersistOptions<GameStoreState, PersistedGameState> = {
+  name: SAVE_STORAGE_KEY,
+  version: SAVE_VERSION,
+  storage: createJSONStorage(() => localStorage),
+  partialize: (state) => ({
+    unlockedLevelIds: state.unlockedLevelIds,
+    levelProgress: state.levelProgress,
+    snapSize: state.snapSize,
+    preferences: state.preferences,
+    resumeSnapshot: getResumeSnapshotToSave(state),
+    customLevels: state.customLevels,
+    dailyResults: state.dailyResults,
+    dailyAttempts: state.dailyAttempts,
+    ghostRuns: state.ghostRuns,
+  }),
+  migrate: migrateGameSave,
+  // 同版本存檔也經過清理，避免手動修改或損壞的資料破壞遊戲狀態
+  merge: (persistedState, currentState) => ({
+    ...currentState,
+    ...sanitizeGameSave(persistedState),
+  }),
+};
@@ -55,12 +55,16 @@ export interface LevelConfig {
   allow_preview: boolean;
   preview_image: string;
   text_hint: string;
+  hint_steps?: string[];   // 文字提示分段（逐步揭示），未設定時依標點切分 text_hint
   canvas: {
     width: number;
     height: number;
     background: string;
   };
   win_threshold: number;
+  scoring?: ScoringMode;   // 誤差計算方式，預設 transform
+  rating_bands?: Partial<RatingBands>;  // 評級誤差上限，未設定時依 win_threshold 比例計算
+  par?: LevelPar;          // 標準步數與時間，未設定時由求解器計算
   pieces: PieceConfig[];
 }
 
@@ -98,15 +102,160 @@ export interface ActionLog {
   payload: ActionPayload;
 }
 
+// ===== 控制列操作（按鈕 / 鍵盤共用） =====
+export type ControlAction =
+  | 'rotate-left' | 'rotate-right'
+  | 'scale-up' | 'scale-down'
+  | 'width-up' | 'width-down'
+  | 'height-up' | 'height-down'
+  | 'move-up' | 'move-down' | 'move-left' | 'move-right';
+
 // ===== 勝利評級 =====
 export type WinRating = 'Perfect' | 'Great' | 'Good' | null;
 
+// 各評級的總誤差上限（像素，誤差需小於此值）
+export interface RatingBands {
+  perfect: number;
+  great: number;
+  good: number;
+}
+
+// ===== 計分方式 =====
+// transform：位置、旋轉、縮放的加權差距
+// iou：形狀與目標的重疊率，誤差為 (1 - IoU) × 100
+export type ScoringMode = 'transform' | 'iou';
+
+// ===== 誤差明細（已套用權重，單位為像素） =====
+export interface PieceErrorBreakdown {
+  pieceId: string;
+  dx: number;
+  dy: number;
+  rotation: number;
+  scale: number;      // 寬高縮放誤差合計
+  iou?: number;       // 重疊率 0 ~ 1（僅 iou 計分）
+  total: number;      // 計入總誤差的值（依計分方式）
+}
+
+export interface ErrorReport {
+  scoring: ScoringMode;
+  total: number;                  // 與 calculateError 相同
+  pieces: PieceErrorBreakdown[];
+  worstPieceId: string | null;    // 誤差最大的碎片，全部對齊時為 null
+}
+
+// ===== 標準步數與時間（par） =====
+export interface LevelPar {
+  actions?: number;   // 整關的標準操作次數
+  seconds?: number;   // 標準過關時間（秒，含開場預覽）
+}
+
+// ===== 效率評分 =====
+export interface PieceEfficiency {
+  pieceId: string;
+  actions: number;
+  par: number | null;
+  score: number | null;   // 0–100，無 par 時為 null
+}
+
+export interface EfficiencyReport {
+  score: number;          // 0–100，操作與時間加權
+  actions: number;
+  parActions: number;
+  actionScore: number;    // 0–100
+  seconds: number;
+  parSeconds: number;
+  timeScore: number;      // 0–100
+  pieces: PieceEfficiency[];
+}
+
 // ===== Snap 設定 =====
 export type SnapSize = 1 | 5 | 10;
 
 // ===== 視覺回饋類型 =====
 export type FeedbackType = 'rotation' | 'scale' | 'positionX' | 'positionY' | null;
 
+// ===== 關卡進度（持久化） =====
+export interface LevelProgress {
+  bestRating: Exclude<WinRating, null>;  // 最佳評級
+  bestTotalError: number;                // 最小總誤差
+  fewestActions: number;                 // 最少操作次數
+  clearCount: number;                    // 過關次數
+}
+
+// ===== 玩家偏好設定（持久化） =====
+export interface GamePreferences {
+  showGrid: boolean;  // 顯示像素網格
+  showAccuracy: boolean;  // 顯示準確度面板
+  showGhost: boolean;  // 顯示最佳紀錄的幽靈
+}
+
+// ===== 進行中關卡快照（重新整理後可繼續） =====
+export interface ResumeSnapshot {
+  levelId: number;
+  pieces: { id: string; current: Transform }[];
+  actionLogs: ActionLog[];
+  undoStack: ActionLog[];
+  redoStack: ActionLog[];
+  gameStartTime: number;  // 原始開始時間（毫秒時間戳）
+  savedAt: number;        // 快照時間，用於還原已進行的時間
+}
+
+// ===== 自訂關卡（匯入的檔案或分享碼，持久化） =====
+export interface CustomLevel {
+  key: string;          // 依內容雜湊產生，相同關卡只保存一份
+  config: LevelConfig;
+  addedAt: number;      // 匯入時間（毫秒時間戳）
+}
+
+// ===== 每日挑戰成績（每天只記錄計分的那一局，持久化） =====
+export interface DailyResult {
+  date: string;                          // 當地日期 YYYY-MM-DD
+  rating: Exclude<WinRating, null>;
+  totalError: number;
+  actionCount: number;
+  durationMs: number;                    // 開始到過關的時間
+  completedAt: number;                   // 過關時間（毫秒時間戳）
+}
+
+// ===== 幽靈：各內建關卡最快過關的操作記錄（持久化） =====
+export interface GhostRun {
+  levelHash: string;      // hashLevelConfig，關卡內容改變後不再使用
+  actionLogs: ActionLog[];
+  durationMs: number;     // 最後一個操作（過關）的時間
+  recordedAt: number;     // 毫秒時間戳
+}
+
+// ===== 回放檔案（可下載、分享給其他玩家） =====
+export interface ReplayLevelRef {
+  id: number;
+  hash: string;           // hashLevelConfig，用於確認播放時的關卡內容相同
+  config?: LevelConfig;   // 自訂/每日關卡內嵌完整設定；內建關卡只記錄 id 與雜湊
+}
+
+export interface ReplayResult {
+  rating: WinRating;
+  totalError: number;
+  actionCount: number;
+  durationMs: number;     // 最後一次操作的時間
+  finalPieces?: { id: string; current: Transform }[];  // 結束時各碎片的變換，驗證時比對
+}
+
+export interface ReplayFile {
+  format: 'perfect-align-replay';
+  version: number;        // 格式變更時遞增
+  level: ReplayLevelRef;
+  actionLogs: ActionLog[];
+  snapSize: SnapSize;     // 錄製時的 snap 設定
+  result: ReplayResult;
+  createdAt: number;      // 毫秒時間戳
+}
+
+// ===== 載入關卡選項 =====
+export interface LoadLevelOptions {
+  custom?: boolean;     // 匯入的自訂關卡
+  dailyDate?: string;   // 每日挑戰的日期
+}
+
 // ===== 畫布縮放等級 =====
 export type ZoomLevel = 1 | 1.5 | 2 | 3;
 
@@ -115,6 +264,9 @@ export interface GameStoreState {
   // 遊戲狀態
   gameState: GameState;
   levelConfig: LevelConfig | null;
+  isCustomLevel: boolean;  // 自訂關卡不記錄進度、不保存中斷快照
+  dailyDate: string | null;  // 每日挑戰的日期，同樣不記錄關卡進度與中斷快照
+  isScoredDaily: boolean;    // 本局是當天計分的那一局（第一個操作時決定）
   pieces: PieceState[];
   selectedPieceId: string | null;
 
@@ -122,6 +274,10 @@ export interface GameStoreState {
   actionLogs: ActionLog[];
   gameStartTime: number;
 
+  // 撤銷/重做堆疊
+  undoStack: ActionLog[];
+  redoStack: ActionLog[];
+
   // 預覽狀態
   isPreviewActive: boolean;
 
@@ -132,20 +288,68 @@ export interface GameStoreState {
   // Snap 設定
   snapSize: SnapSize;
 
+  // 進度與偏好（持久化至 localStorage）
+  unlockedLevelIds: number[];
+  levelProgress: Record<number, LevelProgress>;
+  preferences: GamePreferences;
+  resumeSnapshot: ResumeSnapshot | null;
+  customLevels: CustomLevel[];
+  dailyResults: DailyResult[];
+  dailyAttempts: string[];   // 已開始計分挑戰的日期（開始後重新開始或離開都算練習）
+  ghostRuns: Record<number, GhostRun>;
+
   // 視覺回饋
   activeFeedback: FeedbackType;
   feedbackPieceId: string | null;
   feedbackTargetPos: { x: number; y: number } | null;
 
   // 動作方法
-  loadLevel: (config: LevelConfig) => void;
+  loadLevel: (config: LevelConfig, options?: LoadLevelOptions) => void;
+  resumeLevel: (config: LevelConfig, snapshot: ResumeSnapshot) => void;
+  clearResumeSnapshot: () => void;
+  suspendLevel: () => void;
   selectPiece: (id: string | null) => void;
   updatePieceTransform: (id: string, transform: Partial<Transform>) => void;
   setGameState: (state: GameState) => void;
   setPreviewActive: (active: boolean) => void;
   addActionLog: (log: Omit<ActionLog, 'timestamp'>) => void;
+  undo: () => void;
+  redo: () => void;
   checkWinCondition: () => void;
   resetLevel: () => void;
   setSnapSize: (size: SnapSize) => void;
   snapToGrid: (value: number) => number;
+  unlockLevel: (levelId: number) => void;
+  setPreference: <K extends keyof GamePreferences>(key: K, value: GamePreferences[K]) => void;
+  resetProgress: () => void;
+  addCustomLevel: (config: LevelConfig) => string;  // 回傳自訂關卡的 key
+  removeCustomLevel: (key: string) => void;
+}
+
+// ===== 關卡編輯器 =====
+// target：擺放目標位置；start：打散成起始位置
+export type EditorMode = 'target' | 'start';
+
+// 關卡基本設定（碎片以外的欄位）
+export type LevelMeta = Omit<LevelConfig, 'pieces'>;
+
+export interface EditorStoreState {
+  draft: LevelConfig;
+  mode: EditorMode;
+  selectedPieceId: string | null;
+  snapSize: SnapSize;
+
+  // 動作方法
+  loadDraft: (config: LevelConfig) => void;
+  resetDraft: () => void;
+  updateMeta: (meta: Partial<LevelMeta>) => void;
+  setMode: (mode: EditorMode) => void;
+  setSnapSize: (size: SnapSize) => void;
+  selectPiece: (id: string | null) => void;
+  addPiece: (type: ShapeType) => void;
+  removePiece: (id: string) => void;
+  updatePieceShape: (id: string, shape: Partial<PieceShape>) => void;
+  // 依目前模式更新 target_transform 或 start_transform
+  updatePieceTransform: (id: string, transform: Partial<Transform>) => void;
+  scatterStartTransforms: () => void;
 }
@@ -0,0 +1,114 @@
+import { describe, expect, it } from 'vitest';
+import type { PieceState, Transform } from '../types';
+import {
+  MAX_SCALE,
+  MIN_SCALE,
+  calculateError,
+  clampScale,
+  getRatingBands,
+  getWinRating,
+  normalizeAngle,
+} from './index';
+
+const IDENTITY: Transform = { x: 100, y: 100, rotation: 0, scaleX: 1, scaleY: 1 };
+
+function makePiece(current: Partial<Transform>, target: Partial<Transform> = {}, shape?: PieceState['shape']): PieceState {
+  return {
+    id: 'p1',
+    texture: '',
+    shape,
+    current: { ...IDENTITY, ...current },
+    target: { ...IDENTITY, ...target },
+  };
+}
+
+describe('normalizeAngle', () => {
+  it('保留 -180 ~ 180 內的角度', () => {
+    expect(normalizeAngle(0)).toBe(0);
+    expect(normalizeAngle(45)).toBe(45);
+    expect(normalizeAngle(-90)).toBe(-90);
+    expect(normalizeAngle(180)).toBe(180);
+    expect(normalizeAngle(-180)).toBe(-180);
+  });
+
+  it('超出範圍時轉換到等效角度', () => {
+    expect(normalizeAngle(185)).toBe(-175);
+    expect(normalizeAngle(-185)).toBe(175);
+    expect(normalizeAngle(360)).toBe(0);
+    expect(normalizeAngle(725)).toBe(5);
+    expect(normalizeAngle(-540)).toBe(-180);
+  });
+});
+
+describe('clampScale', () => {
+  it('限制在 MIN_SCALE ~ MAX_SCALE', () => {
+    expect(clampScale(1)).toBe(1);
+    expect(clampScale(MIN_SCALE - 0.1)).toBe(MIN_SCALE);
+    expect(clampScale(MAX_SCALE + 0.1)).toBe(MAX_SCALE);
+    expect(clampScale(MIN_SCALE)).toBe(MIN_SCALE);
+    expect(clampScale(MAX_SCALE)).toBe(MAX_SCALE);
+  });
+});
+
+describe('calculateError', () => {
+  it('完全對齊時為 0', () => {
+    expect(calculateError([makePiece({})])).toBe(0);
+  });
+
+  it('位置以像素計算', () => {
+    expect(calculateError([makePiece({ x: 103, y: 96 })])).toBe(7);
+  });
+
+  it('旋轉每度 0.5，並取最短方向', () => {
+    expect(calculateError([makePiece({ rotation: 10 })])).toBe(5);
+    expect(calculateError([makePiece({ rotation: 175 }, { rotation: -175 })])).toBe(5);
+  });
+
+  it('縮放每 0.01 為 0.5', () => {
+    expect(calculateError([makePiece({ scaleX: 1.1, scaleY: 0.9 })])).toBeCloseTo(10);
+  });
+
+  it('對稱形狀以最近的等效角度計算', () => {
+    expect(calculateError([makePiece({ rotation: 90 }, {}, { type: 'rectangle', width: 80, height: 80 })])).toBe(0);
+    expect(calculateError([makePiece({ rotation: 90 }, {}, { type: 'rectangle', width: 80, height: 40 })])).toBe(45);
+  });
+
+  it('加總所有碎片', () => {
+    const pieces = [makePiece({ x: 102 }), { ...makePiece({ rotation: -4 }), id: 'p2' }];
+    expect(calculateError(pieces)).toBe(4);
+  });
+
+  it('iou 計分時重合的形狀為 0、不重疊為 100', () => {
+    const shape = { type: 'rectangle' as const, width: 40, height: 40 };
+    expect(calculateError([makePiece({ rotation: 90 }, {}, shape)], 'iou')).toBeCloseTo(0);
+    expect(calculateError([makePiece({ x: 300 }, {}, shape)], 'iou')).toBeCloseTo(100);
+  });
+});
+
+describe('getWinRating', () => {
+  const bands = getRatingBands({ win_threshold: 15 });
+
+  it('依 win_threshold 比例計算區間', () => {
+    expect(bands).toEqual({ perfect: 3, great: 7.5, good: 15 });
+  });
+
+  it('依誤差判定評級，達到門檻即不過關', () => {
+    expect(getWinRating(0, bands)).toBe('Perfect');
+    expect(getWinRating(2.9, bands)).toBe('Perfect');
+    expect(getWinRating(3, bands)).toBe('Great');
+    expect(getWinRating(7.4, bands)).toBe('Great');
+    expect(getWinRating(7.5, bands)).toBe('Good');
+    expect(getWinRating(14.9, bands)).toBe('Good');
+    expect(getWinRating(15, bands)).toBeNull();
+  });
+
+  it('零誤差一律為 Perfect', () => {
+    expect(getWinRating(0, { perfect: 0, great: 5, good: 10 })).toBe('Perfect');
+  });
+
+  it('rating_bands 覆寫個別區間', () => {
+    const custom = getRatingBands({ win_threshold: 12, rating_bands: { perfect: 1, great: 5 } });
+    expect(custom).toEqual({ perfect: 1, great: 5, good: 12 });
+    expect(getWinRating(1, custom)).toBe('Great');
+  });
+});
@@ -1,4 +1,33 @@
-import type { PieceState, WinRating } from '../types';
+import type {
+  ActionLog,
+  ActionPayload,
+  ControlAction,
+  EfficiencyReport,
+  ErrorReport,
+  LevelConfig,
+  LevelProgress,
+  PieceErrorBreakdown,
+  PieceState,
+  RatingBands,
+  ScoringMode,
+  SnapSize,
+  Transform,
+  WinRating,
+} from '../types';
+import { calculateShapeIoU, getRotationDelta } from './shapeGeometry';
+
+export {
+  SHAPE_SYMMETRY,
+  calculateShapeIoU,
+  getEquivalentAngleDelta,
+  getRotationDelta,
+  getShapeOutline,
+  getShapeSymmetry,
+  transformOutline,
+} from './shapeGeometry';
+export type { Point, ShapeSymmetry } from './shapeGeometry';
+export { ApngEncoder, composeSpriteSheet, encodePng } from './pngEncoder';
+export type { RgbaImage } from './pngEncoder';
 
 // ===== 角度正規化 =====
 export function normalizeAngle(angle: number): number {
@@ -7,40 +36,243 @@ export function normalizeAngle(angle: number): number {
   return angle;
 }
 
+// ===== 誤差權重 =====
+const W_POSITION = 1.0;   // 位置權重
+const W_ROTATION = 0.5;   // 旋轉權重（1° ≈ 0.5px 誤差）
+const W_SCALE = 50.0;     // 縮放權重（0.01 差異 ≈ 0.5px 誤差）
+
+// IoU 計分時，完全不重疊對應的誤差
+const IOU_ERROR_SCALE = 100;
+
+// ===== 誤差明細 =====
+// 每個碎片各軸的加權誤差，以及誤差最大的碎片
+// iou 計分時各軸誤差僅供參考，total 改用 (1 - 重疊率) × 100
+export function getErrorReport(pieces: PieceState[], scoring: ScoringMode = 'transform'): ErrorReport {
+  const breakdown = pieces.map((piece): PieceErrorBreakdown => {
+    const dx = Math.abs(piece.current.x - piece.target.x) * W_POSITION;
+    const dy = Math.abs(piece.current.y - piece.target.y) * W_POSITION;
+    // 對稱形狀取最近的等效角度（例如六邊形轉 60° 視為對齊）
+    const rotation = Math.abs(getRotationDelta(piece.shape, piece.current, piece.target)) * W_ROTATION;
+    const scale =
+      (Math.abs(piece.current.scaleX - piece.target.scaleX) + Math.abs(piece.current.scaleY - piece.target.scaleY)) *
+      W_SCALE;
+    if (scoring === 'iou') {
+      const iou = calculateShapeIoU(piece.shape, piece.current, piece.target);
+      return { pieceId: piece.id, dx, dy, rotation, scale, iou, total: (1 - iou) * IOU_ERROR_SCALE };
+    }
+    return { pieceId: piece.id, dx, dy, rotation, scale, total: dx + dy + rotation + scale };
+  });
+
+  const worst = breakdown.reduce<PieceErrorBreakdown | null>(
+    (max, piece) => (piece.total > 0 && (!max || piece.total > max.total) ? piece : max),
+    null
+  );
+
+  return {
+    scoring,
+    total: breakdown.reduce((sum, piece) => sum + piece.total, 0),
+    pieces: breakdown,
+    worstPieceId: worst?.pieceId ?? null,
+  };
+}
+
 // ===== 計算總誤差 =====
-export function calculateError(pieces: PieceState[]): number {
-  const W_POSITION = 1.0;   // 位置權重
-  const W_ROTATION = 0.5;   // 旋轉權重（1° ≈ 0.5px 誤差）
-  const W_SCALE = 50.0;     // 縮放權重（0.01 差異 ≈ 0.5px 誤差）
+export function calculateError(pieces: PieceState[], scoring: ScoringMode = 'transform'): number {
+  return getErrorReport(pieces, scoring).total;
+}
 
-  return pieces.reduce((total, piece) => {
-    const dx = Math.abs(piece.current.x - piece.target.x);
-    const dy = Math.abs(piece.current.y - piece.target.y);
-    const dr = Math.abs(normalizeAngle(piece.current.rotation - piece.target.rotation));
-    const dsx = Math.abs(piece.current.scaleX - piece.target.scaleX);
-    const dsy = Math.abs(piece.current.scaleY - piece.target.scaleY);
+// 誤差的顯示單位：iou 計分為不重疊比例（0 ~ 100 / 碎片），沒有像素單位
+export function getErrorUnit(scoring: ScoringMode = 'transform'): string {
+  return scoring === 'iou' ? '' : 'px';
+}
+
+// ===== 評級誤差區間 =====
+// 預設依 win_threshold 比例計算：Perfect 20%、Great 50%、Good 100%
+// 關卡可透過 rating_bands 個別覆寫
+export const DEFAULT_RATING_BAND_RATIOS: RatingBands = {
+  perfect: 0.2,
+  great: 0.5,
+  good: 1.0,
+};
 
-    return total + (dx + dy) * W_POSITION + dr * W_ROTATION + (dsx + dsy) * W_SCALE;
-  }, 0);
+export function getRatingBands(config: Pick<LevelConfig, 'win_threshold' | 'rating_bands'>): RatingBands {
+  const threshold = config.win_threshold;
+  return {
+    perfect: config.rating_bands?.perfect ?? threshold * DEFAULT_RATING_BAND_RATIOS.perfect,
+    great: config.rating_bands?.great ?? threshold * DEFAULT_RATING_BAND_RATIOS.great,
+    good: config.rating_bands?.good ?? threshold * DEFAULT_RATING_BAND_RATIOS.good,
+  };
 }
 
 // ===== 獲取勝利評級 =====
-// 零誤差判定：必須完全精確
-export function getWinRating(totalError: number): WinRating {
-  if (totalError === 0) return 'Perfect';  // 完全精確
-  if (totalError < 0.01) return 'Great';   // 幾乎完美（浮點數誤差容許）
-  if (totalError < 0.1) return 'Good';     // 非常接近
+// 依關卡評級區間判定，完全精確（零誤差）一律為 Perfect
+export function getWinRating(totalError: number, bands: RatingBands): WinRating {
+  if (totalError === 0 || totalError < bands.perfect) return 'Perfect';
+  if (totalError < bands.great) return 'Great';
+  if (totalError < bands.good) return 'Good';
   return null;  // 不過關
 }
 
+// ===== 評級高低比較 =====
+// 回傳正數表示 a 優於 b
+const RATING_RANK: Record<Exclude<WinRating, null>, number> = {
+  Perfect: 3,
+  Great: 2,
+  Good: 1,
+};
+
+export function compareWinRating(a: WinRating, b: WinRating): number {
+  return (a ? RATING_RANK[a] : 0) - (b ? RATING_RANK[b] : 0);
+}
+
+// ===== 評級星數 =====
+export function getRatingStars(rating: WinRating): string {
+  return rating ? '★'.repeat(RATING_RANK[rating]) + '☆'.repeat(3 - RATING_RANK[rating]) : '';
+}
+
+// ===== 時間格式（m:ss） =====
+export function formatDuration(ms: number): string {
+  const totalSeconds = Math.max(0, Math.round(ms / 1000));
+  const minutes = Math.floor(totalSeconds / 60);
+  const seconds = totalSeconds % 60;
+  return `${minutes}:${seconds.toString().padStart(2, '0')}`;
+}
+
+// ===== 合併關卡最佳紀錄 =====
+// 各項指標分別取最佳值（評級、誤差、操作次數不一定來自同一次過關）
+export function mergeLevelProgress(
+  prev: LevelProgress | undefined,
+  result: { rating: Exclude<WinRating, null>; totalError: number; actionCount: number }
+): LevelProgress {
+  if (!prev) {
+    return {
+      bestRating: result.rating,
+      bestTotalError: result.totalError,
+      fewestActions: result.actionCount,
+      clearCount: 1,
+    };
+  }
+
+  return {
+    bestRating: compareWinRating(result.rating, prev.bestRating) > 0 ? result.rating : prev.bestRating,
+    bestTotalError: Math.min(prev.bestTotalError, result.totalError),
+    fewestActions: Math.min(prev.fewestActions, result.actionCount),
+    clearCount: prev.clearCount + 1,
+  };
+}
+
+// ===== 效率評分 =====
+// 比較實際操作次數、用時與 par；操作佔 70%、時間佔 30%
+const EFFICIENCY_ACTION_WEIGHT = 0.7;
+const EFFICIENCY_TIME_WEIGHT = 0.3;
+
+// 未超過 par 為滿分，超過時依比例遞減（par 為 0 時視為 1，避免動一下就歸零）
+function getParRatio(actual: number, par: number): number {
+  return actual <= par ? 1 : Math.max(par, 1) / actual;
+}
+
+export function calculateEfficiency(params: {
+  actionLogs: Pick<ActionLog, 'pieceId'>[];
+  elapsedMs: number;
+  parActions: number;
+  parSeconds: number;
+  piecePars: { pieceId: string; par: number | null }[];
+}): EfficiencyReport {
+  const { actionLogs, elapsedMs, parActions, parSeconds, piecePars } = params;
+  const actions = actionLogs.length;
+  const seconds = Math.max(0, elapsedMs / 1000);
+  const actionRatio = getParRatio(actions, parActions);
+  const timeRatio = getParRatio(seconds, parSeconds);
+
+  return {
+    score: Math.round((actionRatio * EFFICIENCY_ACTION_WEIGHT + timeRatio * EFFICIENCY_TIME_WEIGHT) * 100),
+    actions,
+    parActions,
+    actionScore: Math.round(actionRatio * 100),
+    seconds,
+    parSeconds,
+    timeScore: Math.round(timeRatio * 100),
+    pieces: piecePars.map(({ pieceId, par }) => {
+      const pieceActions = actionLogs.filter((log) => log.pieceId === pieceId).length;
+      return {
+        pieceId,
+        actions: pieceActions,
+        par,
+        score: par === null ? null : Math.round(getParRatio(pieceActions, par) * 100),
+      };
+    }),
+  };
+}
+
+// ===== 文字提示分段 =====
+// 優先使用 hint_steps，否則依中英文標點切分 text_hint
+export function getHintSteps(config: Pick<LevelConfig, 'text_hint' | 'hint_steps'>): string[] {
+  if (config.hint_steps && config.hint_steps.length > 0) {
+    return config.hint_steps;
+  }
+  return config.text_hint
+    .split(/[，,；;。]/)
+    .map((step) => step.trim())
+    .filter((step) => step.length > 0);
+}
+
+// ===== 字串雜湊（FNV-1a 32 位元） =====
+export function hashString(text: string): number {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
+
+// ===== 可重現的隨機數（mulberry32） =====
+// 相同種子永遠產生相同序列，回傳 [0, 1) 的亂數函式
+export function createSeededRandom(seed: number | string): () => number {
+  let state = typeof seed === 'string' ? hashString(seed) : seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
 // ===== Lerp 插值 =====
 export function lerp(current: number, target: number, factor: number = 0.15): number {
   return current + (target - current) * factor;
 }
 
 // ===== 限制縮放範圍 =====
+export const MIN_SCALE = 0.5;
+export const MAX_SCALE = 2.0;
+
 export function clampScale(scale: number): number {
-  return Math.max(0.5, Math.min(2.0, scale));
+  return Math.max(MIN_SCALE, Math.min(MAX_SCALE, scale));
+}
+
+// ===== 關卡的初始碎片狀態 =====
+export function createPieceStates(config: LevelConfig): PieceState[] {
+  return config.pieces.map((p) => ({
+    id: p.id,
+    texture: p.texture,
+    shape: p.shape,
+    current: { ...p.start_transform },
+    target: { ...p.target_transform },
+  }));
+}
+
+// ===== 套用部分變換 =====
+// 與遊戲中相同的規則：角度正規化到 -180 ~ 180、縮放限制在 MIN_SCALE ~ MAX_SCALE
+export function applyTransformUpdate(current: Transform, update: Partial<Transform>): Transform {
+  const next = { ...current };
+  if (update.x !== undefined) next.x = update.x;
+  if (update.y !== undefined) next.y = update.y;
+  if (update.rotation !== undefined) next.rotation = normalizeAngle(update.rotation);
+  if (update.scaleX !== undefined) next.scaleX = clampScale(update.scaleX);
+  if (update.scaleY !== undefined) next.scaleY = clampScale(update.scaleY);
+  return next;
 }
 
 // ===== 角度轉弧度 =====
@@ -52,3 +284,158 @@ export function degToRad(degrees: number): number {
 export function radToDeg(radians: number): number {
   return radians * (180 / Math.PI);
 }
+
+// ===== 解析操作記錄的前後變換 =====
+// 從 from*/to* payload 取出操作前後的變換值，供撤銷/重做使用
+export function getActionTransforms(log: Pick<ActionLog, 'type' | 'payload'>): {
+  from: Partial<Transform>;
+  to: Partial<Transform>;
+} {
+  const { payload } = log;
+  const from: Partial<Transform> = {};
+  const to: Partial<Transform> = {};
+
+  switch (log.type) {
+    case 'drag':
+    case 'fine_move':
+      if (payload.fromX !== undefined) from.x = payload.fromX;
+      if (payload.fromY !== undefined) from.y = payload.fromY;
+      if (payload.toX !== undefined) to.x = payload.toX;
+      if (payload.toY !== undefined) to.y = payload.toY;
+      break;
+    case 'rotate':
+      if (payload.fromRotation !== undefined) from.rotation = payload.fromRotation;
+      if (payload.toRotation !== undefined) to.rotation = payload.toRotation;
+      break;
+    case 'scale':
+      if (payload.fromScaleX !== undefined) from.scaleX = payload.fromScaleX;
+      if (payload.fromScaleY !== undefined) from.scaleY = payload.fromScaleY;
+      if (payload.toScaleX !== undefined) to.scaleX = payload.toScaleX;
+      if (payload.toScaleY !== undefined) to.scaleY = payload.toScaleY;
+      break;
+  }
+
+  return { from, to };
+}
+
+// ===== 反轉操作記錄 =====
+// 交換 from*/to*（fine_move 方向取反），產生「復原」該操作的記錄
+const OPPOSITE_DIRECTION = { up: 'down', down: 'up', left: 'right', right: 'left' } as const;
+
+export function invertActionLog<T extends Omit<ActionLog, 'timestamp'>>(log: T): T {
+  const { payload } = log;
+  const inverted: ActionPayload = {};
+
+  if (payload.direction !== undefined) inverted.direction = OPPOSITE_DIRECTION[payload.direction];
+  if (payload.toX !== undefined) inverted.fromX = payload.toX;
+  if (payload.toY !== undefined) inverted.fromY = payload.toY;
+  if (payload.fromX !== undefined) inverted.toX = payload.fromX;
+  if (payload.fromY !== undefined) inverted.toY = payload.fromY;
+  if (payload.toRotation !== undefined) inverted.fromRotation = payload.toRotation;
+  if (payload.fromRotation !== undefined) inverted.toRotation = payload.fromRotation;
+  if (payload.toScaleX !== undefined) inverted.fromScaleX = payload.toScaleX;
+  if (payload.toScaleY !== undefined) inverted.fromScaleY = payload.toScaleY;
+  if (payload.fromScaleX !== undefined) inverted.toScaleX = payload.fromScaleX;
+  if (payload.fromScaleY !== undefined) inverted.toScaleY = payload.fromScaleY;
+
+  return { ...log, payload: inverted };
+}
+
+// ===== Snap 實際步長 =====
+// 玩家選擇 1px → 實際 5px, 5px → 10px, 10px → 20px
+export function getSnapStep(snapSize: SnapSize): number {
+  return snapSize === 1 ? 5 : snapSize === 5 ? 10 : 20;
+}
+
+// ===== 控制操作步長 =====
+export const ROTATION_STEP = 5;          // 每次旋轉 5°
+export const UNIFORM_SCALE_STEP = 0.1;   // 等比縮放固定 0.1 步長
+export const DEFAULT_PIECE_SIZE = 100;   // 未設定 shape 時的基礎尺寸
+
+// 單獨調整寬高：根據基礎尺寸計算步長，確保每邊增加 5px（一格）
+// 100px → 10/100 = 0.1 → 每邊 +5px
+// 50px → 10/50 = 0.2 → 每邊 +5px
+export function getAxisScaleStep(baseSize: number): number {
+  return 10 / baseSize;
+}
+
+// ===== 控制操作對應的新變換 =====
+// 控制列按鈕與鍵盤共用，確保步長一致
+export function getControlTransform(
+  piece: PieceState,
+  action: ControlAction,
+  moveStep: number
+): Partial<Transform> {
+  const uniformScaleStep = UNIFORM_SCALE_STEP;
+  const widthScaleStep = getAxisScaleStep(piece.shape?.width ?? DEFAULT_PIECE_SIZE);
+  const heightScaleStep = getAxisScaleStep(piece.shape?.height ?? DEFAULT_PIECE_SIZE);
+
+  const { current } = piece;
+
+  switch (action) {
+    case 'rotate-left':
+      return { rotation: current.rotation - ROTATION_STEP };
+    case 'rotate-right':
+      return { rotation: current.rotation + ROTATION_STEP };
+    case 'scale-up':
+      return { scaleX: current.scaleX + uniformScaleStep, scaleY: current.scaleY + uniformScaleStep };
+    case 'scale-down':
+      return { scaleX: current.scaleX - uniformScaleStep, scaleY: current.scaleY - uniformScaleStep };
+    case 'width-up':
+      return { scaleX: current.scaleX + widthScaleStep };
+    case 'width-down':
+      return { scaleX: current.scaleX - widthScaleStep };
+    case 'height-up':
+      return { scaleY: current.scaleY + heightScaleStep };
+    case 'height-down':
+      return { scaleY: current.scaleY - heightScaleStep };
+    case 'move-up':
+      return { y: current.y - moveStep };
+    case 'move-down':
+      return { y: current.y + moveStep };
+    case 'move-left':
+      return { x: current.x - moveStep };
+    case 'move-right':
+      return { x: current.x + moveStep };
+  }
+}
+
+// ===== 控制操作結束時的操作記錄 =====
+// 比較操作開始與結束的變換，無變化時回傳 null
+export function buildControlActionLog(
+  pieceId: string,
+  action: ControlAction,
+  start: Transform,
+  end: Transform
+): Omit<ActionLog, 'timestamp'> | null {
+  if (action.startsWith('rotate')) {
+    if (start.rotation === end.rotation) return null;
+    return {
+      pieceId,
+      type: 'rotate',
+      payload: { fromRotation: start.rotation, toRotation: end.rotation },
+    };
+  }
+
+  if (action.startsWith('move')) {
+    if (start.x === end.x && start.y === end.y) return null;
+    return {
+      pieceId,
+      type: 'fine_move',
+      payload: { fromX: start.x, fromY: start.y, toX: end.x, toY: end.y },
+    };
+  }
+
+  // scale / width / height
+  if (start.scaleX === end.scaleX && start.scaleY === end.scaleY) return null;
+  return {
+    pieceId,
+    type: 'scale',
+    payload: {
+      fromScaleX: start.scaleX,
+      fromScaleY: start.scaleY,
+      toScaleX: end.scaleX,
+      toScaleY: end.scaleY,
+    },
+  };
+}
@@ -0,0 +1,183 @@
+// ===== PNG / APNG 編碼 =====
+// 不依賴外部套件：區塊格式在此組裝，壓縮使用瀏覽器內建的 CompressionStream（zlib）
+
+export interface RgbaImage {
+  width: number;
+  height: number;
+  data: Uint8Array;   // RGBA，每像素 4 bytes，未預乘 alpha
+}
+
+const PNG_SIGNATURE = new Uint8Array([137, 80, 78, 71, 13, 10, 26, 10]);
+const BYTES_PER_PIXEL = 4;
+// 掃描線濾波：Sub（與左側像素的差值），畫面大多是純色區塊，壓縮率明顯較好
+const FILTER_SUB = 1;
+
+const CRC_TABLE = (() => {
+  const table = new Uint32Array(256);
+  for (let n = 0; n < 256; n++) {
+    let c = n;
+    for (let k = 0; k < 8; k++) {
+      c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+    }
+    table[n] = c >>> 0;
+  }
+  return table;
+})();
+
+function crc32(bytes: Uint8Array): number {
+  let crc = 0xffffffff;
+  for (let i = 0; i < bytes.length; i++) {
+    crc = CRC_TABLE[(crc ^ bytes[i]) & 0xff] ^ (crc >>> 8);
+  }
+  return (crc ^ 0xffffffff) >>> 0;
+}
+
+// 區塊：長度 + 類型 + 資料 + CRC（類型與資料）
+function createChunk(type: string, data: Uint8Array): Uint8Array {
+  const chunk = new Uint8Array(12 + data.length);
+  const view = new DataView(chunk.buffer);
+  view.setUint32(0, data.length);
+  for (let i = 0; i < 4; i++) chunk[4 + i] = type.charCodeAt(i);
+  chunk.set(data, 8);
+  view.setUint32(8 + data.length, crc32(chunk.subarray(4, 8 + data.length)));
+  return chunk;
+}
+
+function uint32s(...values: number[]): Uint8Array {
+  const bytes = new Uint8Array(values.length * 4);
+  const view = new DataView(bytes.buffer);
+  values.forEach((value, i) => view.setUint32(i * 4, value));
+  return bytes;
+}
+
+function createHeader(width: number, height: number): Uint8Array {
+  const data = new Uint8Array(13);
+  data.set(uint32s(width, height));
+  data[8] = 8;    // 每個色版 8 bits
+  data[9] = 6;    // RGBA
+  return createChunk('IHDR', data);
+}
+
+// 每條掃描線前加上濾波類型
+function filterScanlines(image: RgbaImage): Uint8Array {
+  const { width, height, data } = image;
+  const stride = width * BYTES_PER_PIXEL;
+  const out = new Uint8Array((stride + 1) * height);
+  for (let y = 0; y < height; y++) {
+    const row = y * stride;
+    const target = y * (stride + 1);
+    out[target] = FILTER_SUB;
+    for (let x = 0; x < stride; x++) {
+      const left = x >= BYTES_PER_PIXEL ? data[row + x - BYTES_PER_PIXEL] : 0;
+      out[target + 1 + x] = (data[row + x] - left) & 0xff;
+    }
+  }
+  return out;
+}
+
+async function deflate(bytes: Uint8Array): Promise<Uint8Array> {
+  const stream = new Blob([bytes as BlobPart]).stream().pipeThrough(new CompressionStream('deflate'));
+  return new Uint8Array(await new Response(stream).arrayBuffer());
+}
+
+async function compressImage(image: RgbaImage): Promise<Uint8Array> {
+  if (image.data.length !== image.width * image.height * BYTES_PER_PIXEL) {
+    throw new Error(`影像資料長度不符：${image.width}×${image.height} 需要 ${image.width * image.height * BYTES_PER_PIXEL} bytes`);
+  }
+  return deflate(filterScanlines(image));
+}
+
+function toBlob(parts: Uint8Array[]): Blob {
+  return new Blob([PNG_SIGNATURE, ...parts] as BlobPart[], { type: 'image/png' });
+}
+
+export async function encodePng(image: RgbaImage): Promise<Blob> {
+  const compressed = await compressImage(image);
+  return toBlob([
+    createHeader(image.width, image.height),
+    createChunk('IDAT', compressed),
+    createChunk('IEND', new Uint8Array(0)),
+  ]);
+}
+
+// ===== APNG =====
+// 逐格加入並立即壓縮，只保留壓縮後的資料（長回放不會把所有原始影格留在記憶體）
+export class ApngEncoder {
+  private width: number;
+  private height: number;
+  private frames: { compressed: Uint8Array; delayMs: number }[] = [];
+
+  constructor(width: number, height: number) {
+    this.width = width;
+    this.height = height;
+  }
+
+  get frameCount(): number {
+    return this.frames.length;
+  }
+
+  async addFrame(image: RgbaImage, delayMs: number): Promise<void> {
+    if (image.width !== this.width || image.height !== this.height) {
+      throw new Error(`影格尺寸不符：應為 ${this.width}×${this.height}，實際為 ${image.width}×${image.height}`);
+    }
+    this.frames.push({ compressed: await compressImage(image), delayMs });
+  }
+
+  // loops 為 0 時無限循環
+  finish(loops = 0): Blob {
+    if (this.frames.length === 0) throw new Error('APNG 至少需要一個影格');
+
+    const parts: Uint8Array[] = [
+      createHeader(this.width, this.height),
+      createChunk('acTL', uint32s(this.frames.length, loops)),
+    ];
+    // fcTL 與 fdAT 共用遞增的序號
+    let sequence = 0;
+    this.frames.forEach(({ compressed, delayMs }, i) => {
+      const control = new Uint8Array(26);
+      control.set(uint32s(sequence++, this.width, this.height, 0, 0));
+      const view = new DataView(control.buffer);
+      view.setUint16(20, Math.round(delayMs));   // 延遲分子
+      view.setUint16(22, 1000);                   // 延遲分母（毫秒）
+      control[24] = 0;  // dispose：保留
+      control[25] = 0;  // blend：直接覆蓋（每格都是完整畫面）
+      parts.push(createChunk('fcTL', control));
+
+      if (i === 0) {
+        // 第一格同時是一般 PNG 的預設影像
+        parts.push(createChunk('IDAT', compressed));
+      } else {
+        const data = new Uint8Array(4 + compressed.length);
+        data.set(uint32s(sequence++));
+        data.set(compressed, 4);
+        parts.push(createChunk('fdAT', data));
+      }
+    });
+    parts.push(createChunk('IEND', new Uint8Array(0)));
+    return toBlob(parts);
+  }
+}
+
+// ===== 精靈圖 =====
+// 影格由左至右、由上而下排列，空格保持透明
+export function composeSpriteSheet(frames: RgbaImage[], columns: number): RgbaImage {
+  if (frames.length === 0) throw new Error('精靈圖至少需要一個影格');
+  const { width, height } = frames[0];
+  const rows = Math.ceil(frames.length / columns);
+  const sheet: RgbaImage = {
+    width: width * columns,
+    height: height * rows,
+    data: new Uint8Array(width * columns * height * rows * BYTES_PER_PIXEL),
+  };
+
+  const stride = width * BYTES_PER_PIXEL;
+  const sheetStride = sheet.width * BYTES_PER_PIXEL;
+  frames.forEach((frame, i) => {
+    const left = (i % columns) * stride;
+    const top = Math.floor(i / columns) * height;
+    for (let y = 0; y < height; y++) {
+      sheet.data.set(frame.data.subarray(y * stride, (y + 1) * stride), (top + y) * sheetStride + left);
+    }
+  });
+  return sheet;
+}
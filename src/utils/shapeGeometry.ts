@@ -0,0 +1,251 @@
+import type { PieceShape, ShapeType, Transform } from '../types';
+
+// ===== 形狀幾何 =====
+// 與 GameEngine.drawShape 相同的外形，以多邊形表示（圓形與心形取樣成折線），不依賴畫面
+
+export interface Point {
+  x: number;
+  y: number;
+}
+
+// 曲線（圓形、心形）的取樣段數
+const CURVE_SEGMENTS = 48;
+// 未設定 shape 時的尺寸（與 GameEngine 相同）
+const DEFAULT_SHAPE_SIZE = 100;
+// IoU 的取樣列數（每列以掃描線精確計算寬度）
+const IOU_SCANLINES = 128;
+
+function regularPolygon(sides: number, radius: number): Point[] {
+  const points: Point[] = [];
+  for (let i = 0; i < sides; i++) {
+    const angle = -Math.PI / 2 + (i * Math.PI * 2) / sides;  // 從頂部開始
+    points.push({ x: Math.cos(angle) * radius, y: Math.sin(angle) * radius });
+  }
+  return points;
+}
+
+function starPolygon(points: number, outerRadius: number, innerRadius: number): Point[] {
+  const result: Point[] = [];
+  for (let i = 0; i < points * 2; i++) {
+    const angle = -Math.PI / 2 + (i * Math.PI) / points;
+    const radius = i % 2 === 0 ? outerRadius : innerRadius;
+    result.push({ x: Math.cos(angle) * radius, y: Math.sin(angle) * radius });
+  }
+  return result;
+}
+
+// 三次貝茲曲線取樣（不含起點）
+function sampleBezier(p0: Point, p1: Point, p2: Point, p3: Point, segments: number): Point[] {
+  const points: Point[] = [];
+  for (let i = 1; i <= segments; i++) {
+    const t = i / segments;
+    const u = 1 - t;
+    points.push({
+      x: u * u * u * p0.x + 3 * u * u * t * p1.x + 3 * u * t * t * p2.x + t * t * t * p3.x,
+      y: u * u * u * p0.y + 3 * u * u * t * p1.y + 3 * u * t * t * p2.y + t * t * t * p3.y,
+    });
+  }
+  return points;
+}
+
+// 碎片外形（本地座標，中心為原點）
+export function getShapeOutline(shape: PieceShape | undefined): Point[] {
+  const width = shape?.width ?? DEFAULT_SHAPE_SIZE;
+  const height = shape?.height ?? DEFAULT_SHAPE_SIZE;
+  const halfW = width / 2;
+  const halfH = height / 2;
+  const radius = Math.min(halfW, halfH);
+
+  switch (shape?.type ?? 'rectangle') {
+    case 'circle':
+      return regularPolygon(CURVE_SEGMENTS, radius);
+    case 'triangle':
+      return [{ x: 0, y: -halfH }, { x: halfW, y: halfH }, { x: -halfW, y: halfH }];
+    case 'diamond':
+      return [{ x: 0, y: -halfH }, { x: halfW, y: 0 }, { x: 0, y: halfH }, { x: -halfW, y: 0 }];
+    case 'pentagon':
+      return regularPolygon(5, radius);
+    case 'hexagon':
+      return regularPolygon(6, radius);
+    case 'octagon':
+      return regularPolygon(8, radius);
+    case 'star':
+      return starPolygon(5, radius, radius * 0.4);
+    case 'heart': {
+      const s = Math.min(width, height) / 100;
+      const top = { x: 0, y: -30 * s };
+      const bottom = { x: 0, y: 40 * s };
+      return [
+        top,
+        ...sampleBezier(top, { x: -50 * s, y: -60 * s }, { x: -50 * s, y: 0 }, bottom, CURVE_SEGMENTS / 2),
+        ...sampleBezier(bottom, { x: 50 * s, y: 0 }, { x: 50 * s, y: -60 * s }, top, CURVE_SEGMENTS / 2).slice(0, -1),
+      ];
+    }
+    case 'cross': {
+      const halfArmW = width / 6;
+      const halfArmH = height / 6;
+      return [
+        { x: -halfArmW, y: -halfH }, { x: halfArmW, y: -halfH },
+        { x: halfArmW, y: -halfArmH }, { x: halfW, y: -halfArmH },
+        { x: halfW, y: halfArmH }, { x: halfArmW, y: halfArmH },
+        { x: halfArmW, y: halfH }, { x: -halfArmW, y: halfH },
+        { x: -halfArmW, y: halfArmH }, { x: -halfW, y: halfArmH },
+        { x: -halfW, y: -halfArmH }, { x: -halfArmW, y: -halfArmH },
+      ];
+    }
+    case 'rectangle':
+    default:
+      return [{ x: -halfW, y: -halfH }, { x: halfW, y: -halfH }, { x: halfW, y: halfH }, { x: -halfW, y: halfH }];
+  }
+}
+
+// ===== 形狀對稱性 =====
+export interface ShapeSymmetry {
+  rotation: number;     // 最小的旋轉對稱角度；0 表示任意角度皆相同，360 表示沒有旋轉對稱
+  mirrorAxes: number;   // 鏡像對稱軸數量
+}
+
+// 各形狀在「正規」時（寬高相同、等比縮放）的對稱性
+export const SHAPE_SYMMETRY: Record<ShapeType, ShapeSymmetry> = {
+  rectangle: { rotation: 90, mirrorAxes: 4 },
+  circle: { rotation: 0, mirrorAxes: Infinity },
+  triangle: { rotation: 360, mirrorAxes: 1 },   // 等腰三角形，中心不在重心，轉 120° 也不會重合
+  diamond: { rotation: 90, mirrorAxes: 4 },
+  pentagon: { rotation: 72, mirrorAxes: 5 },
+  hexagon: { rotation: 60, mirrorAxes: 6 },
+  octagon: { rotation: 45, mirrorAxes: 8 },
+  star: { rotation: 72, mirrorAxes: 5 },
+  heart: { rotation: 360, mirrorAxes: 1 },
+  cross: { rotation: 90, mirrorAxes: 4 },
+};
+
+// 以最短邊為半徑繪製的形狀，只要等比縮放就維持正規
+const RADIAL_SHAPES: ShapeType[] = ['circle', 'pentagon', 'hexagon', 'octagon', 'star'];
+
+function isSameRatio(a: number, b: number): boolean {
+  return Math.abs(a - b) < 1e-6;
+}
+
+// 實際顯示時的對稱性：被拉成長方形、橢圓時只剩水平/垂直方向的對稱
+export function getShapeSymmetry(
+  shape: PieceShape | undefined,
+  transform: Pick<Transform, 'scaleX' | 'scaleY'>
+): ShapeSymmetry {
+  const type = shape?.type ?? 'rectangle';
+  const symmetry = SHAPE_SYMMETRY[type];
+  const width = shape?.width ?? DEFAULT_SHAPE_SIZE;
+  const height = shape?.height ?? DEFAULT_SHAPE_SIZE;
+  const isRegular = RADIAL_SHAPES.includes(type)
+    ? isSameRatio(transform.scaleX, transform.scaleY)
+    : isSameRatio(width * transform.scaleX, height * transform.scaleY);
+  if (isRegular) return symmetry;
+
+  // 偶數次旋轉對稱（含圓形）拉伸後仍保留 180°；頂點朝上的奇數邊形只剩垂直對稱軸
+  const isEvenOrder = symmetry.rotation === 0 || (360 / symmetry.rotation) % 2 === 0;
+  return {
+    rotation: isEvenOrder ? 180 : 360,
+    mirrorAxes: Math.min(symmetry.mirrorAxes, isEvenOrder ? 2 : 1),
+  };
+}
+
+// 角度差換算到最近的等效角度，範圍 (-period/2, period/2]；period 為 0 時任何角度都等效
+export function getEquivalentAngleDelta(delta: number, period: number): number {
+  if (period === 0) return 0;
+  const wrapped = ((delta % period) + period) % period;
+  return wrapped > period / 2 ? wrapped - period : wrapped;
+}
+
+// 目前角度與目標的差距（以目標外形的對稱性取最近的等效角度）
+export function getRotationDelta(
+  shape: PieceShape | undefined,
+  current: Pick<Transform, 'rotation'>,
+  target: Pick<Transform, 'rotation' | 'scaleX' | 'scaleY'>
+): number {
+  return getEquivalentAngleDelta(current.rotation - target.rotation, getShapeSymmetry(shape, target).rotation);
+}
+
+// 套用變換（與 Pixi 相同：先縮放、再旋轉、最後平移）
+export function transformOutline(points: Point[], transform: Transform): Point[] {
+  const rad = (transform.rotation * Math.PI) / 180;
+  const cos = Math.cos(rad);
+  const sin = Math.sin(rad);
+  return points.map(({ x, y }) => {
+    const sx = x * transform.scaleX;
+    const sy = y * transform.scaleY;
+    return { x: transform.x + sx * cos - sy * sin, y: transform.y + sx * sin + sy * cos };
+  });
+}
+
+function getBounds(points: Point[]) {
+  const xs = points.map((p) => p.x);
+  const ys = points.map((p) => p.y);
+  return { left: Math.min(...xs), right: Math.max(...xs), top: Math.min(...ys), bottom: Math.max(...ys) };
+}
+
+// 水平線 y 與多邊形相交的區間（奇偶規則），回傳 [x0, x1, x2, x3, ...]
+function getScanlineCrossings(polygon: Point[], y: number): number[] {
+  const crossings: number[] = [];
+  for (let i = 0; i < polygon.length; i++) {
+    const a = polygon[i];
+    const b = polygon[(i + 1) % polygon.length];
+    // 半開區間，避免頂點被計算兩次
+    if ((a.y <= y && b.y > y) || (b.y <= y && a.y > y)) {
+      crossings.push(a.x + ((y - a.y) / (b.y - a.y)) * (b.x - a.x));
+    }
+  }
+  return crossings.sort((p, q) => p - q);
+}
+
+function getSpanLength(crossings: number[]): number {
+  let length = 0;
+  for (let i = 0; i + 1 < crossings.length; i += 2) {
+    length += crossings[i + 1] - crossings[i];
+  }
+  return length;
+}
+
+// 兩組區間的交集長度
+function getOverlapLength(a: number[], b: number[]): number {
+  let length = 0;
+  for (let i = 0; i + 1 < a.length; i += 2) {
+    for (let j = 0; j + 1 < b.length; j += 2) {
+      length += Math.max(0, Math.min(a[i + 1], b[j + 1]) - Math.max(a[i], b[j]));
+    }
+  }
+  return length;
+}
+
+// ===== 像素重疊率（Intersection over Union） =====
+// 以掃描線計算同一形狀在兩個變換下的重疊面積比例：1 為完全重合，0 為完全不重疊
+export function calculateShapeIoU(shape: PieceShape | undefined, a: Transform, b: Transform): number {
+  const outline = getShapeOutline(shape);
+  const polygonA = transformOutline(outline, a);
+  const polygonB = transformOutline(outline, b);
+  const boundsA = getBounds(polygonA);
+  const boundsB = getBounds(polygonB);
+
+  // 外接矩形不相交時不需要掃描
+  if (
+    boundsA.right <= boundsB.left || boundsB.right <= boundsA.left ||
+    boundsA.bottom <= boundsB.top || boundsB.bottom <= boundsA.top
+  ) {
+    return 0;
+  }
+
+  const top = Math.min(boundsA.top, boundsB.top);
+  const bottom = Math.max(boundsA.bottom, boundsB.bottom);
+  const rowHeight = (bottom - top) / IOU_SCANLINES;
+
+  let intersection = 0;
+  let union = 0;
+  for (let row = 0; row < IOU_SCANLINES; row++) {
+    const y = top + (row + 0.5) * rowHeight;
+    const crossingsA = getScanlineCrossings(polygonA, y);
+    const crossingsB = getScanlineCrossings(polygonB, y);
+    const overlap = getOverlapLength(crossingsA, crossingsB);
+    intersection += overlap;
+    union += getSpanLength(crossingsA) + getSpanLength(crossingsB) - overlap;
+  }
+
+  return union > 0 ? intersection / union : 1;
+}